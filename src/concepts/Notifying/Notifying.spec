@@ -0,0 +1,23 @@
+<concept_spec>
+concept Notifying [User]
+  purpose to tell every open client of a user about changes made elsewhere, as they happen
+  principle after a user connects from a client, each event pushed to the user is delivered to that client, until it disconnects
+
+  state
+    a set of Connections with
+      a user User
+      an opened DateTime
+      a socket Socket
+
+  actions
+    connect (user: User, socket: Socket): (connection: Connection)
+      requires the socket is open
+      effect creates a new Connection of the user through the socket
+    disconnect (connection: Connection)
+      requires the connection exists
+      effect removes the connection and closes its socket
+    push (user: User, event: String, ...data): (user: User, delivered: Number)
+      effect sends the event with its data through every open connection of the user, removing those whose socket has closed
+    _getConnections (user: User): (connection: Connection, opened: DateTime)
+      effect returns the open connections of the user
+</concept_spec>
@@ -0,0 +1,117 @@
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import NotifyingConcept, { Socket, socket } from "./NotifyingConcept.ts";
+
+// Mock IDs for testing
+const userA = "user:A" as ID;
+const userB = "user:B" as ID;
+
+// A socket that keeps the messages sent through it
+function fakeSocket() {
+  const fake = {
+    readyState: 1,
+    sent: [] as unknown[],
+    send: (data: string) => fake.sent.push(JSON.parse(data)),
+    close: () => {
+      fake.readyState = 3;
+    },
+  };
+  return fake satisfies Socket;
+}
+
+Deno.test("Operational Principle: Pushed events reach every open client", async () => {
+  console.log(
+    "--- TEST: Operational Principle: Pushed events reach every open client ---",
+  );
+  const [db, client] = await testDb();
+  try {
+    const notifying = new NotifyingConcept(db);
+    const tab1 = fakeSocket();
+    const tab2 = fakeSocket();
+
+    // The user has the app open in two tabs
+    console.log(`> connect({ user: "${userA}" }) twice`);
+    const first = notifying.connect({ user: userA, [socket]: tab1 });
+    const second = notifying.connect({ user: userA, [socket]: tab2 });
+    console.log(`< ${JSON.stringify(first)}, ${JSON.stringify(second)}`);
+    assertExists((first as { connection: ID }).connection);
+    assertEquals(notifying._getConnections({ user: userA }).length, 2);
+
+    // A change made in one tab is pushed to both
+    console.log(`> push({ user: "${userA}", event: "taskCompleted" })`);
+    const pushed = notifying.push({
+      user: userA,
+      event: "taskCompleted",
+      task: "task:1",
+    });
+    console.log(`< ${JSON.stringify(pushed)}`);
+    assertEquals(pushed, { user: userA, delivered: 2 });
+    assertEquals(tab1.sent, [{ event: "taskCompleted", task: "task:1" }]);
+    assertEquals(tab2.sent, tab1.sent);
+
+    // Events of other users are not delivered
+    assertEquals(notifying.push({ user: userB, event: "focusChanged" }), {
+      user: userB,
+      delivered: 0,
+    });
+    assertEquals(tab1.sent.length, 1);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Scenario 1: Disconnected and closed clients receive nothing", async () => {
+  console.log(
+    "\n--- TEST: Scenario 1: Disconnected and closed clients receive nothing ---",
+  );
+  const [db, client] = await testDb();
+  try {
+    const notifying = new NotifyingConcept(db);
+    const tab1 = fakeSocket();
+    const tab2 = fakeSocket();
+    const { connection } = notifying.connect({
+      user: userA,
+      [socket]: tab1,
+    }) as { connection: ID };
+    notifying.connect({ user: userA, [socket]: tab2 });
+
+    // Disconnecting closes the socket
+    console.log(`> disconnect({ connection: "${connection}" })`);
+    assertEquals(notifying.disconnect({ connection }), {});
+    assertEquals(tab1.readyState, 3);
+
+    // A socket closed by the client is dropped on the next push
+    tab2.close();
+    assertEquals(notifying.push({ user: userA, event: "focusChanged" }), {
+      user: userA,
+      delivered: 0,
+    });
+    assertEquals(notifying._getConnections({ user: userA }), []);
+
+    // A connection can only be removed once
+    const again = notifying.disconnect({ connection });
+    console.log(`< ${JSON.stringify(again)}`);
+    assertExists((again as { error: string }).error);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Scenario 2: A closed socket cannot connect", async () => {
+  console.log("\n--- TEST: Scenario 2: A closed socket cannot connect ---");
+  const [db, client] = await testDb();
+  try {
+    const notifying = new NotifyingConcept(db);
+    const closed = fakeSocket();
+    closed.close();
+
+    console.log(`> connect({ user: "${userA}" })`);
+    const result = notifying.connect({ user: userA, [socket]: closed });
+    console.log(`< ${JSON.stringify(result)}`);
+    assertEquals(result, { error: "The socket is not open." });
+    assertEquals(notifying._getConnections({ user: userA }), []);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,149 @@
+import { Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+type User = ID;
+type Connection = ID;
+
+// The `readyState` of a WebSocket that is open
+const OPEN = 1;
+
+/**
+ * An open WebSocket, or anything else that sends text to a client.
+ */
+export interface Socket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+}
+
+/**
+ * The input field giving `connect` the socket of a connection. As a symbol,
+ * it is neither persisted nor matched by synchronizations.
+ */
+export const socket = Symbol("socket");
+
+/**
+ * a set of Connections with
+ *   a user User
+ *   an opened DateTime
+ *   a socket Socket
+ *
+ * Sockets live only in the memory of the server that accepted them, so this
+ * state is not persisted.
+ */
+interface ConnectionState {
+  user: User;
+  opened: Date;
+  socket: Socket;
+}
+
+/**
+ * @concept Notifying [User]
+ * @purpose To tell every open client of a user about changes made elsewhere, as they happen.
+ * @principle After a user connects from a client, each event pushed to the user is delivered to
+ * that client, until it disconnects.
+ */
+export default class NotifyingConcept {
+  // The open connections of each user
+  private readonly connections: Map<User, Map<Connection, ConnectionState>> =
+    new Map();
+  private readonly owners: Map<Connection, User> = new Map();
+
+  constructor(private readonly db: Db) {}
+
+  /**
+   * connect (user: User, [socket]: Socket): (connection: Connection)
+   *
+   * **requires**: the socket is open.
+   *
+   * **effects**: creates a new Connection `c` of the `user` through the socket; returns `c` as
+   * `connection`.
+   */
+  connect(
+    { user, [socket]: open }: { user: User; [socket]?: Socket },
+  ): { connection: Connection } | { error: string } {
+    if (open === undefined || open.readyState !== OPEN) {
+      return { error: "The socket is not open." };
+    }
+    const connection = freshID() as Connection;
+    const ofUser = this.connections.get(user) ?? new Map();
+    ofUser.set(connection, { user, opened: new Date(), socket: open });
+    this.connections.set(user, ofUser);
+    this.owners.set(connection, user);
+    return { connection };
+  }
+
+  /**
+   * disconnect (connection: Connection): ()
+   *
+   * **requires**: the `connection` exists.
+   *
+   * **effects**: removes the connection and closes its socket.
+   */
+  disconnect(
+    { connection }: { connection: Connection },
+  ): Empty | { error: string } {
+    const user = this.owners.get(connection);
+    const state = user && this.connections.get(user)?.get(connection);
+    if (!state) return { error: `Connection ${connection} not found` };
+    this.remove(connection);
+    state.socket.close();
+    return {};
+  }
+
+  /**
+   * push (user: User, event: String, [key: string]: unknown): (user: User, delivered: Number)
+   *
+   * **requires**: true.
+   *
+   * **effects**: sends the event with the other key-value pairs, as JSON, through every open
+   * connection of the `user`, removing those whose socket has closed; returns how many it was
+   * `delivered` to.
+   */
+  push(
+    { user, event, ...data }: {
+      user: User;
+      event: string;
+      [key: string]: unknown;
+    },
+  ): { user: User; delivered: number } {
+    const message = JSON.stringify({ event, ...data });
+    let delivered = 0;
+    for (const [connection, state] of this.connections.get(user) ?? []) {
+      if (state.socket.readyState !== OPEN) {
+        this.remove(connection);
+        continue;
+      }
+      try {
+        state.socket.send(message);
+        delivered++;
+      } catch {
+        this.remove(connection);
+      }
+    }
+    return { user, delivered };
+  }
+
+  /**
+   * _getConnections (user: User): (connection: Connection, opened: DateTime)
+   *
+   * **effects**: returns the open connections of the `user`, oldest first.
+   */
+  _getConnections(
+    { user }: { user: User },
+  ): { connection: Connection; opened: Date }[] {
+    return [...this.connections.get(user) ?? []]
+      .filter(([, state]) => state.socket.readyState === OPEN)
+      .map(([connection, { opened }]) => ({ connection, opened }));
+  }
+
+  private remove(connection: Connection) {
+    const user = this.owners.get(connection);
+    if (user === undefined) return;
+    this.owners.delete(connection);
+    const ofUser = this.connections.get(user);
+    ofUser?.delete(connection);
+    if (ofUser?.size === 0) this.connections.delete(user);
+  }
+}
@@ -1,9 +1,22 @@
 import { Hono } from "jsr:@hono/hono";
+import type { Context } from "jsr:@hono/hono";
+import type { ContentfulStatusCode } from "jsr:@hono/hono/utils/http-status";
 import { cors } from "jsr:@hono/hono/cors";
+import { streamSSE } from "jsr:@hono/hono/streaming";
 import { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
-import { exclusions, inclusions } from "./passthrough.ts";
+import { redact, serializeRecording } from "@engine";
+import type { NearMiss, SyncConcept } from "@engine";
+import { exclusions, inclusions, schemas } from "./passthrough.ts";
+import { registerAdminRoutes } from "./admin.ts";
+import { matchRoute, routeTemplates } from "./routes.ts";
+import { registerSocketRoute } from "./sockets.ts";
+import {
+  type FieldError,
+  type RequestSchemas,
+  validateInput,
+} from "./schemas.ts";
 import "jsr:@std/dotenv/load";
 
 /**
@@ -14,6 +27,19 @@ import "jsr:@std/dotenv/load";
  * - REQUESTING_BASE_URL: the base URL prefix for api requests, default "/api"
  * - REQUESTING_TIMEOUT: the timeout for requests, default 10000ms
  * - REQUESTING_SAVE_RESPONSES: whether to persist responses or not, default true
+ * - REQUESTING_UNMATCHED_STATUS: the status of requests that no synchronization
+ *   responds to, default 404
+ * - REQUESTING_RECORD_DIR: a directory to record the flow of every request to,
+ *   for replaying with `deno task replay`, default none
+ * - REQUESTING_METRICS_PATH: the path serving engine metrics in Prometheus
+ *   text format, default "/metrics"
+ * - REQUESTING_ADMIN_TOKEN: the bearer token of the admin API, which is only
+ *   served if set, default none
+ * - REQUESTING_ADMIN_PATH: the path of the admin API, default "/admin"
+ * - REQUESTING_HEADERS: the request headers recorded as input, separated by
+ *   commas, default "accept,if-none-match"
+ * - REQUESTING_SOCKET_PATH: the path of the WebSocket endpoint pushing the
+ *   events of Notifying, default "/notifications"
  */
 const PORT = parseInt(Deno.env.get("PORT") ?? "8000", 10);
 const REQUESTING_BASE_URL = Deno.env.get("REQUESTING_BASE_URL") ?? "/api";
@@ -22,6 +48,59 @@ const REQUESTING_TIMEOUT = parseInt(
   10,
 );
 
+// Statuses whose responses cannot have the body every response is sent with
+const CONTENTLESS_STATUSES = [204, 205, 304];
+
+/**
+ * Whether a response can be sent with the status, which must be an HTTP
+ * status of a response with a body.
+ */
+function isContentfulStatus(status: unknown): status is ContentfulStatusCode {
+  return typeof status === "number" && Number.isInteger(status) &&
+    status >= 200 && status <= 599 && !CONTENTLESS_STATUSES.includes(status);
+}
+
+const REQUESTING_UNMATCHED_STATUS = (() => {
+  const value = Deno.env.get("REQUESTING_UNMATCHED_STATUS") ?? "404";
+  const status = Number(value);
+  if (!isContentfulStatus(status)) {
+    throw new Error(
+      `REQUESTING_UNMATCHED_STATUS must be an HTTP status of a response with a body, not "${value}".`,
+    );
+  }
+  return status;
+})();
+
+const REQUESTING_RECORD_DIR = Deno.env.get("REQUESTING_RECORD_DIR");
+
+const REQUESTING_METRICS_PATH = Deno.env.get("REQUESTING_METRICS_PATH") ??
+  "/metrics";
+
+const REQUESTING_ADMIN_TOKEN = Deno.env.get("REQUESTING_ADMIN_TOKEN");
+const REQUESTING_ADMIN_PATH = Deno.env.get("REQUESTING_ADMIN_PATH") ??
+  "/admin";
+
+const REQUESTING_HEADERS = (
+  Deno.env.get("REQUESTING_HEADERS") ?? "accept,if-none-match"
+).split(",").map((header) => header.trim().toLowerCase()).filter(Boolean);
+
+const REQUESTING_SOCKET_PATH = Deno.env.get("REQUESTING_SOCKET_PATH") ??
+  "/notifications";
+
+// The HTTP methods served under the base URL
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+// The fields of a request input that the server sets, which neither the
+// query string nor the body may give
+const TRANSPORT_FIELDS = [
+  "path",
+  "route",
+  "method",
+  "query",
+  "headers",
+  "stream",
+];
+
 // TODO: make sure you configure this environment variable for proper CORS configuration
 const REQUESTING_ALLOWED_DOMAIN = Deno.env.get("REQUESTING_ALLOWED_DOMAIN") ??
   "*";
@@ -35,28 +114,176 @@ const PREFIX = "Requesting" + ".";
 // --- Type Definitions ---
 type Request = ID;
 
+/**
+ * How a response is sent: its HTTP status, extra headers, and content type,
+ * all optional.
+ */
+export interface Reply {
+  statusCode?: ContentfulStatusCode;
+  headers?: Record<string, string>;
+  contentType?: string;
+}
+
 /**
  * a set of Requests with
  *   an input unknown
  *   an optional response unknown
+ *   an optional reply Reply
  */
 interface RequestDoc {
   _id: Request;
   input: { path: string; [key: string]: unknown };
   response?: unknown;
+  reply?: Reply;
   createdAt: Date;
 }
 
 /**
- * Represents an in-flight request waiting for a response.
- * This state is not persisted and lives only in memory.
+ * Represents an in-flight request waiting for a response, or streaming its
+ * events. This state is not persisted and lives only in memory.
  */
 interface PendingRequest {
-  promise: Promise<unknown>;
-  resolve: (value: unknown) => void;
+  responded?: boolean;
+  stream?: EventStream;
+  promise: Promise<Responded>;
+  resolve: (value: Responded) => void;
   reject: (reason?: unknown) => void;
 }
 
+// A response together with how it is sent
+interface Responded extends Reply {
+  response: unknown;
+}
+
+/**
+ * A Server-Sent Event: its name, by default "message", and its data.
+ */
+export interface ServerSentEvent {
+  event?: string;
+  data: unknown;
+}
+
+/**
+ * The events emitted to a streaming request, in order, until it is closed.
+ * Reading it waits for each next event.
+ */
+export class EventStream {
+  private readonly queue: ServerSentEvent[] = [];
+  private wake?: () => void;
+  private readonly closers: (() => void)[] = [];
+  closed = false;
+
+  push(event: ServerSentEvent) {
+    if (this.closed) return false;
+    this.queue.push(event);
+    this.wake?.();
+    return true;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.wake?.();
+    for (const closer of this.closers) closer();
+  }
+
+  onClose(closer: () => void) {
+    this.closers.push(closer);
+  }
+
+  async *[Symbol.asyncIterator]() {
+    while (true) {
+      const next = this.queue.shift();
+      if (next !== undefined) {
+        yield next;
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => this.wake = resolve);
+        this.wake = undefined;
+      }
+    }
+  }
+}
+
+/**
+ * The input field giving `request` the stream of a streaming request. As a
+ * symbol, it is neither persisted nor matched by synchronizations.
+ */
+export const events = Symbol("events");
+
+type RequestInput = {
+  path: string;
+  [key: string]: unknown;
+  [events]?: EventStream;
+};
+
+/**
+ * The fallback response for a request whose flow finished without any
+ * synchronization responding to it.
+ */
+export interface UnmatchedResponse {
+  status: ContentfulStatusCode;
+  error: string;
+}
+
+export interface RequestingServerOptions {
+  /**
+   * Chooses the fallback response for an unmatched request, given its input
+   * and the synchronizations that nearly matched it.
+   */
+  unmatched?: (
+    input: { path: string; [key: string]: unknown },
+    nearMisses: NearMiss[],
+  ) => UnmatchedResponse;
+  /**
+   * The schemas of request inputs by path or route template, such as those
+   * the syncs export, which "@syncs" collects as `schemas`.
+   */
+  schemas?: RequestSchemas;
+}
+
+function defaultUnmatched(
+  input: { path: string },
+): UnmatchedResponse {
+  return {
+    status: REQUESTING_UNMATCHED_STATUS,
+    error: `No synchronization responded to ${input.path}`,
+  };
+}
+
+function describeNearMiss({ sync, stage, matched, of }: NearMiss) {
+  return stage === "where"
+    ? `${sync} (when matched, where filtered out every frame)`
+    : `${sync} (matched ${matched} of ${of} when patterns)`;
+}
+
+/**
+ * The response to an input that does not match its schema.
+ */
+function invalid(c: Context, errors: FieldError[]) {
+  return c.json({ error: "Invalid request input.", errors }, 400);
+}
+
+/**
+ * Sends a response as JSON, or for other content types, sends its `body` as is.
+ */
+function send(
+  c: Context,
+  { response, statusCode: status = 200, headers = {}, contentType }: Responded,
+) {
+  const type: Record<string, string> = contentType !== undefined
+    ? { "Content-Type": contentType }
+    : {};
+  if (contentType === undefined || contentType.includes("json")) {
+    return c.json(response, status, { ...headers, ...type });
+  }
+  const { body } = (response ?? {}) as { body?: unknown };
+  if (body === undefined) return c.body(null, status, { ...headers, ...type });
+  const text = typeof body === "string" ? body : JSON.stringify(body);
+  return c.body(text, status, { ...headers, ...type });
+}
+
 /**
  * The Requesting concept encapsulates an API server, modeling incoming
  * requests and outgoing responses as concept actions.
@@ -81,9 +308,14 @@ export default class RequestingConcept {
    * **requires** true
    *
    * **effects** creates a new Request `r`; sets the input of `r` to be the path and all other input parameters; returns `r` as `request`
+   *
+   * Requests from the server also have the HTTP `method`, the parameters of the `query` string, which are
+   * input parameters as well, and the recorded `headers`. A path matching a route template also gives
+   * the template as `route`, and its parameters as input parameters. Requests for Server-Sent Events
+   * have `stream` set to true, and their events are emitted to the stream given as `[events]`.
    */
   async request(
-    inputs: { path: string; [key: string]: unknown },
+    { [events]: stream, ...inputs }: RequestInput,
   ): Promise<{ request: Request }> {
     const requestId = freshID() as Request;
     const requestDoc: RequestDoc = {
@@ -96,50 +328,118 @@ export default class RequestingConcept {
     await this.requests.insertOne(requestDoc);
 
     // Create an in-memory pending request to manage the async response.
-    let resolve!: (value: unknown) => void;
+    let resolve!: (value: Responded) => void;
     let reject!: (reason?: unknown) => void;
-    const promise = new Promise<unknown>((res, rej) => {
+    const promise = new Promise<Responded>((res, rej) => {
       resolve = res;
       reject = rej;
     });
 
-    this.pending.set(requestId, { promise, resolve, reject });
+    this.pending.set(requestId, { promise, resolve, reject, stream });
+    // Nothing waits for the response of a stream once it is closed
+    stream?.onClose(() => this.pending.delete(requestId));
 
     return { request: requestId };
   }
 
   /**
-   * respond (request: Request, [key: string]: unknown)
+   * emit (request: Request, event?: String, [key: string]: unknown): (request: Request)
    *
-   * **requires** a Request with the given `request` id exists and has no response yet
+   * **requires** a Request with the given `request` id is streaming, and its stream is not closed
    *
-   * **effects** sets the response of the given Request to the provided key-value pairs.
+   * **effects** sends the other key-value pairs as the data of a Server-Sent Event named `event`,
+   * by default "message"
+   */
+  emit(
+    { request, event, ...data }: {
+      request: Request;
+      event?: string;
+      [key: string]: unknown;
+    },
+  ): { request: Request } | { error: string } {
+    const stream = this.pending.get(request)?.stream;
+    if (stream === undefined || !stream.push({ event, data })) {
+      return { error: `Request ${request} is not streaming.` };
+    }
+    return { request };
+  }
+
+  /**
+   * close (request: Request): (request: Request)
+   *
+   * **requires** a Request with the given `request` id is streaming, and its stream is not closed
+   *
+   * **effects** ends the stream of the request, before its flow finishes
+   */
+  close(
+    { request }: { request: Request },
+  ): { request: Request } | { error: string } {
+    const stream = this.pending.get(request)?.stream;
+    if (stream === undefined || stream.closed) {
+      return { error: `Request ${request} is not streaming.` };
+    }
+    stream.close();
+    return { request };
+  }
+
+  /**
+   * respond (request: Request, statusCode?: Number, headers?: Object, contentType?: String, [key: string]: unknown)
+   *
+   * **requires** a Request with the given `request` id exists and has no response yet, and `statusCode`
+   * is an HTTP status of a response with a body
+   *
+   * **effects** sets the response of the given Request to the provided key-value pairs, sent with the
+   * `statusCode` (default 200), `headers` and `contentType` given. Unless the content type is JSON, the
+   * `body` of the response is sent as is. The response to a streaming request is sent as an event
+   * named "response", without closing the stream.
    */
   async respond(
-    { request, ...response }: { request: Request; [key: string]: unknown },
-  ): Promise<{ request: string }> {
-    const pendingRequest = this.pending.get(request);
-    if (pendingRequest) {
-      // Resolve the promise for any waiting `_awaitResponse` call.
-      pendingRequest.resolve(response);
+    { request, statusCode, headers, contentType, ...response }: {
+      request: Request;
+      statusCode?: number;
+      headers?: Record<string, string>;
+      contentType?: string;
+      [key: string]: unknown;
+    },
+  ): Promise<{ request: string } | { error: string }> {
+    if (statusCode !== undefined && !isContentfulStatus(statusCode)) {
+      return { error: `Invalid status code ${statusCode}.` };
     }
+    const pendingRequest = this.pending.get(request);
+    const error = `Request ${request} was already responded to.`;
+    if (pendingRequest?.responded) return { error };
+    const reply: Reply = {
+      ...(statusCode !== undefined ? { statusCode } : {}),
+      ...(headers !== undefined ? { headers } : {}),
+      ...(contentType !== undefined ? { contentType } : {}),
+    };
 
-    // Update the persisted request document with the response.
+    // Update the persisted request document with the response, unless
+    // another response was persisted first.
     if (REQUESTING_SAVE_RESPONSES) {
-      await this.requests.updateOne({ _id: request }, { $set: { response } });
+      const { matchedCount } = await this.requests.updateOne(
+        { _id: request, response: { $exists: false } },
+        { $set: { response, reply } },
+      );
+      if (matchedCount === 0) return { error };
     }
+    if (pendingRequest) pendingRequest.responded = true;
+
+    // Resolve the promise for any waiting `_awaitResponse` call.
+    pendingRequest?.resolve({ response, ...reply });
+    pendingRequest?.stream?.push({ event: "response", data: response });
 
     return { request };
   }
 
   /**
-   * _awaitResponse (request: Request): (response: unknown)
+   * _awaitResponse (request: Request): (response: unknown, statusCode?: Number, headers?: Object, contentType?: String)
    *
-   * **effects** returns the response associated with the given request, waiting if necessary up to a configured timeout.
+   * **effects** returns the response associated with the given request and how it is sent, waiting if necessary up to a configured timeout.
    */
   async _awaitResponse(
     { request }: { request: Request },
-  ): Promise<{ response: unknown }[]> {
+  ): Promise<Responded[]> {
     const pendingRequest = this.pending.get(request);
 
     if (!pendingRequest) {
@@ -163,11 +463,11 @@ export default class RequestingConcept {
 
     try {
       // Race the actual response promise against the timeout.
-      const response = await Promise.race([
+      const responded = await Promise.race([
         pendingRequest.promise,
         timeoutPromise,
       ]);
-      return [{ response }];
+      return [responded];
     } finally {
       // Clean up regardless of outcome.
       clearTimeout(timeoutId!);
@@ -181,16 +481,97 @@ export default class RequestingConcept {
  * into the Requesting concept instance. Additionally, it allows passthrough
  * requests to concept actions by default. These should be
  * @param concepts The complete instantiated concepts import from "@concepts"
+ * @param options Optional server behavior, such as unmatched request handling
  */
 export function startRequestingServer(
   // deno-lint-ignore no-explicit-any
   concepts: Record<string, any>,
+  options: RequestingServerOptions = {},
 ) {
   // deno-lint-ignore no-unused-vars
   const { Requesting, client, db, Engine, ...instances } = concepts;
   if (!(Requesting instanceof RequestingConcept)) {
     throw new Error("Requesting concept missing or broken.");
   }
+  const unmatched = options.unmatched ?? defaultUnmatched;
+  const requestSchemas = options.schemas ?? {};
+
+  /**
+   * UNMATCHED AND FAILED REQUESTS
+   *
+   * When the flow of a request finishes without a response, no
+   * synchronization can respond anymore, so reply right away with a
+   * fallback instead of waiting for the timeout. A failed flow, such as one
+   * whose transaction was rolled back, is answered with a server error, and
+   * its request is no longer pending, as the server does not await it.
+   */
+  (Engine as SyncConcept).onFlowFinished(async (event) => {
+    const [first] = event.actions;
+    if (first === undefined || first.action !== Requesting.request) return;
+    const request = first.output?.request as Request | undefined;
+    if (request === undefined) return;
+    const answered: unknown[] = [
+      Requesting.respond,
+      Requesting.emit,
+      Requesting.close,
+    ];
+    const responded = event.actions.some((a) => answered.includes(a.action));
+    if (event.error !== undefined) {
+      if (!responded) {
+        await Requesting.respond({
+          request,
+          error: "An internal server error occurred.",
+          statusCode: 500,
+        });
+      }
+      await Requesting._awaitResponse({ request }).catch(() => {});
+      return;
+    }
+    if (responded) return;
+    const input = first.input as { path: string; [key: string]: unknown };
+    let { status, error } = unmatched(input, event.nearMisses);
+    if (!isContentfulStatus(status)) {
+      console.error(
+        `[Requesting] Invalid status ${status} for unmatched ${input.path}`,
+      );
+      status = 500;
+    }
+    const nearlyMatched = event.nearMisses.map(describeNearMiss);
+    console.warn(
+      `[Requesting] No synchronization responded to ${input.path}` +
+        (nearlyMatched.length > 0
+          ? `, nearly matched:\n  ${nearlyMatched.join("\n  ")}`
+          : ""),
+    );
+    await Requesting.respond({
+      request,
+      error,
+      nearlyMatched,
+      statusCode: status,
+    });
+  });
+
+  /**
+   * RECORDING
+   *
+   * Saves the flow of every request as JSON, to replay against the
+   * synchronizations with `deno task replay <file>`. Passwords, sessions and
+   * other credentials are redacted, as in the persisted action log.
+   */
+  if (REQUESTING_RECORD_DIR !== undefined) {
+    Deno.mkdirSync(REQUESTING_RECORD_DIR, { recursive: true });
+    (Engine as SyncConcept).recordFlows(
+      (record) => record.action === Requesting.request,
+      async (recording) => {
+        const file = `${REQUESTING_RECORD_DIR}/${recording.flow}.json`;
+        const text = serializeRecording(redact(recording));
+        await Deno.writeTextFile(file, text + "\n");
+        console.log(
+          `[Requesting] Recorded ${recording.root.input.path} to ${file}`,
+        );
+      },
+    );
+  }
   const app = new Hono();
   app.use(
     "/*",
@@ -222,6 +603,43 @@ export function startRequestingServer(
     });
   });
 
+  /**
+   * METRICS ROUTE - Counters and latencies of every synchronization and
+   * action, for Prometheus to scrape
+   */
+  app.get(REQUESTING_METRICS_PATH, (c) => {
+    return c.text((Engine as SyncConcept).metrics.toPrometheus(), 200, {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+    });
+  });
+
+  /**
+   * ADMIN ROUTES - Enable and disable synchronizations and roll out feature
+   * flags at runtime
+   */
+  if (REQUESTING_ADMIN_TOKEN !== undefined) {
+    registerAdminRoutes(
+      app,
+      Engine,
+      db,
+      REQUESTING_ADMIN_PATH,
+      REQUESTING_ADMIN_TOKEN,
+    );
+  }
+
+  /**
+   * NOTIFICATIONS ROUTE - A WebSocket per open client of a user, through
+   * which synchronizations push events with Notifying
+   */
+  if (instances.Notifying !== undefined && instances.Sessioning !== undefined) {
+    registerSocketRoute(
+      app,
+      REQUESTING_SOCKET_PATH,
+      instances.Sessioning,
+      instances.Notifying,
+    );
+  }
+
   /**
    * PASSTHROUGH ROUTES
    *
@@ -251,7 +669,12 @@ export function startRequestingServer(
 
       app.post(route, async (c) => {
         try {
-          const body = await c.req.json().catch(() => ({})); // Handle empty body
+          let body = await c.req.json().catch(() => ({})); // Handle empty body
+          if (route in schemas) {
+            const checked = validateInput(schemas[route], body);
+            if ("errors" in checked) return invalid(c, checked.errors);
+            body = checked.input;
+          }
           const result = await concept[method](body);
           return c.json(result);
         } catch (e) {
@@ -270,14 +693,23 @@ export function startRequestingServer(
   /**
    * REQUESTING ROUTES
    *
-   * Captures all POST routes under the base URL.
+   * Captures all routes under the base URL, for every method in METHODS.
    * The specific action path is extracted from the URL.
    */
 
   const routePath = `${REQUESTING_BASE_URL}/*`;
-  app.post(routePath, async (c) => {
+  app.on(METHODS, routePath, async (c) => {
     try {
-      const body = await c.req.json();
+      // Requests without a body, such as GETs, give their input in the query
+      const text = c.req.method === "GET" ? "" : await c.req.text();
+      let body: unknown = {};
+      if (text.trim() !== "") {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          body = null;
+        }
+      }
       if (typeof body !== "object" || body === null) {
         return c.json(
           { error: "Invalid request body. Must be a JSON object." },
@@ -289,14 +721,70 @@ export function startRequestingServer(
       // e.g., if base is /api and request is /api/users/create, path is /users/create
       const actionPath = c.req.path.substring(REQUESTING_BASE_URL.length);
 
-      // Combine the path from the URL with the JSON body to form the action's input.
-      const inputs = {
+      // Combine the path from the URL with the query and JSON body to form
+      // the action's input, recording the method and selected headers. A
+      // path matching a route template adds the route and its parameters.
+      // Fields of the body take precedence over those of the query, and
+      // neither may give a field the server sets.
+      const query = c.req.query();
+      const reserved = TRANSPORT_FIELDS.filter((field) =>
+        field in query || field in body
+      );
+      if (reserved.length > 0) {
+        return invalid(
+          c,
+          reserved.map((field) => ({ field, error: "is set by the server" })),
+        );
+      }
+      const routed = matchRoute(
+        routeTemplates(Engine, Requesting.request),
+        actionPath,
+      );
+      const headers: Record<string, string> = {};
+      for (const name of REQUESTING_HEADERS) {
+        const value = c.req.header(name);
+        if (value !== undefined) headers[name] = value;
+      }
+      let inputs = {
+        ...query,
         ...body,
+        ...routed?.params,
         path: actionPath,
+        ...(routed !== undefined ? { route: routed.route } : {}),
+        method: c.req.method,
+        query,
+        headers,
       };
 
       console.log(`[Requesting] Received request for path: ${inputs.path}`);
 
+      // Inputs with a schema are checked, and converted to their types,
+      // before the request
+      const schema = requestSchemas[routed?.route ?? actionPath];
+      if (schema !== undefined) {
+        const checked = validateInput(schema, inputs);
+        if ("errors" in checked) return invalid(c, checked.errors);
+        inputs = checked.input;
+      }
+
+      // Requests accepting Server-Sent Events get the events of their flow
+      // as they are emitted. The stream ends with the flow, unless a
+      // synchronization closes it before.
+      if (c.req.header("accept")?.includes("text/event-stream")) {
+        const stream = new EventStream();
+        return streamSSE(c, async (sse) => {
+          sse.onAbort(() => stream.close());
+          Requesting.request({ ...inputs, stream: true, [events]: stream })
+            .catch((e: unknown) =>
+              console.error(`[Requesting] Error processing stream:`, e)
+            )
+            .finally(() => stream.close());
+          for await (const { event, data } of stream) {
+            await sse.writeSSE({ event, data: JSON.stringify(data) });
+          }
+        });
+      }
+
       // 1. Trigger the 'request' action.
       const { request } = await Requesting.request(inputs);
 
@@ -304,9 +792,9 @@ export function startRequestingServer(
       //    synchronizations to trigger the 'respond' action.
       const responseArray = await Requesting._awaitResponse({ request });
 
-      // 3. Send the response back to the client.
-      const { response } = responseArray[0];
-      return c.json(response);
+      // 3. Send the response back to the client, as the responding
+      //    synchronization chose.
+      return send(c, responseArray[0]);
     } catch (e) {
       if (e instanceof Error) {
         console.error(`[Requesting] Error processing request:`, e.message);
@@ -321,7 +809,9 @@ export function startRequestingServer(
   });
 
   console.log(
-    `\n🚀 Requesting server listening for POST requests at base path of ${routePath}`,
+    `\n🚀 Requesting server listening for ${
+      METHODS.join(", ")
+    } requests at base path of ${routePath}`,
   );
 
   Deno.serve({ port: PORT }, app.fetch);
@@ -0,0 +1,122 @@
+import type { Hono } from "jsr:@hono/hono";
+import { bearerAuth } from "jsr:@hono/hono/bearer-auth";
+import type { Db } from "npm:mongodb";
+import type { FlagRollout, SyncConcept } from "@engine";
+
+/**
+ * The admin settings, saved so that they survive restarts of the server.
+ * Names are kept as values, as sync and flag names such as `planner.*`
+ * cannot be field names.
+ */
+interface SettingsDoc {
+  _id: "settings";
+  syncs: { name: string; enabled: boolean }[];
+  flags: { name: string; rollout: FlagRollout }[];
+}
+
+/**
+ * Registers routes under `path` to enable and disable syncs and to roll out
+ * feature flags at runtime, guarded by a bearer token:
+ *
+ * - GET `path/syncs`: every registered sync and whether it is enabled
+ * - POST `path/syncs/enable` and `path/syncs/disable` with `{ syncs }`, a
+ *   list of sync names or groups, such as `planner.*`
+ * - GET `path/flags`: the rollout of every flag that was set
+ * - PUT `path/flags/:flag` with `{ users?, percentage? }`: sets a rollout
+ * - DELETE `path/flags/:flag`: turns a flag on for everyone again
+ */
+export function registerAdminRoutes(
+  app: Hono,
+  Engine: SyncConcept,
+  db: Db,
+  path: string,
+  token: string,
+) {
+  const settings = db.collection<SettingsDoc>("Requesting.admin");
+  // Routes must be registered before the server starts, so the saved
+  // settings are applied meanwhile, and before any new ones
+  const restored = settings.findOne({ _id: "settings" }).then((saved) => {
+    for (const { name, enabled } of saved?.syncs ?? []) {
+      Engine.toggles.set(name, enabled);
+    }
+    for (const { name, rollout } of saved?.flags ?? []) {
+      Engine.flags.set(name, rollout);
+    }
+  }).catch((e) => console.error("[Requesting] Failed to restore settings:", e));
+  const save = async () => {
+    await restored;
+    const syncs = Object.entries(Engine.toggles.entries())
+      .map(([name, enabled]) => ({ name, enabled }));
+    const flags = Object.entries(Engine.flags.entries())
+      .map(([name, rollout]) => ({ name, rollout }));
+    await settings.updateOne(
+      { _id: "settings" },
+      { $set: { syncs, flags } },
+      { upsert: true },
+    );
+  };
+
+  app.use(`${path}/*`, bearerAuth({ token }));
+
+  app.get(`${path}/syncs`, (c) => {
+    const syncs = Object.keys(Engine.syncs).map((sync) => ({
+      sync,
+      enabled: Engine.isEnabled(sync),
+    }));
+    return c.json({ syncs, settings: Engine.toggles.entries() });
+  });
+  for (const enabled of [true, false]) {
+    const route = `${path}/syncs/${enabled ? "enable" : "disable"}`;
+    app.post(route, async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const patterns = body?.syncs;
+      if (
+        !Array.isArray(patterns) ||
+        !patterns.every((p) => typeof p === "string")
+      ) {
+        return c.json({ error: "Expected `syncs`, a list of names." }, 400);
+      }
+      await restored;
+      if (enabled) Engine.enable(...patterns);
+      else Engine.disable(...patterns);
+      await save();
+      console.log(
+        `[Requesting] ${enabled ? "Enabled" : "Disabled"} ${
+          patterns.join(", ")
+        }`,
+      );
+      return c.json({ settings: Engine.toggles.entries() });
+    });
+  }
+
+  app.get(`${path}/flags`, (c) => c.json({ flags: Engine.flags.entries() }));
+  app.put(`${path}/flags/:flag`, async (c) => {
+    const flag = c.req.param("flag");
+    const body = await c.req.json().catch(() => ({}));
+    const { users, percentage } = body ?? {};
+    if (
+      users !== undefined &&
+      !(Array.isArray(users) && users.every((u) => typeof u === "string"))
+    ) {
+      return c.json({ error: "Expected `users`, a list of user ids." }, 400);
+    }
+    await restored;
+    try {
+      Engine.flags.set(flag, {
+        ...(users !== undefined ? { users } : {}),
+        ...(percentage !== undefined ? { percentage } : {}),
+      });
+    } catch (e) {
+      return c.json({ error: (e as Error).message }, 400);
+    }
+    await save();
+    console.log(`[Requesting] Set flag ${flag} to`, body);
+    return c.json({ flags: Engine.flags.entries() });
+  });
+  app.delete(`${path}/flags/:flag`, async (c) => {
+    await restored;
+    Engine.flags.delete(c.req.param("flag"));
+    await save();
+    return c.json({ flags: Engine.flags.entries() });
+  });
+}
@@ -9,12 +9,15 @@
  * the world, but should only be done intentionally for public
  * actions and queries.
  *
- * This file allows you to explicitly set inclusions and exclusions
- * for passthrough routes:
+ * This file allows you to explicitly set inclusions, exclusions and
+ * schemas for passthrough routes:
  * - inclusions: those that you can justify their inclusion
  * - exclusions: those to exclude, using Requesting routes instead
+ * - schemas: the inputs that routes accept
  */
 
+import type { RequestSchemas } from "./schemas.ts";
+
 /**
  * INCLUSIONS
  *
@@ -72,9 +75,17 @@ export const exclusions: Array<string> = [
   "/api/Schedule/deleteAllForUser",
   "/api/Schedule/_getSlots",
 
+  // Connections are opened by the WebSocket endpoint, and events pushed by
+  // synchronizations
+  "/api/Notifying/connect",
+  "/api/Notifying/disconnect",
+  "/api/Notifying/push",
+  "/api/Notifying/_getConnections",
+
   "/api/Sessioning/create",
   "/api/Sessioning/delete",
   "/api/Sessioning/_getUser",
+  "/api/Sessioning/_getUserBatch",
 
   "/api/Tasks/createUserTasks",
   "/api/Tasks/createTask",
@@ -86,6 +97,13 @@ export const exclusions: Array<string> = [
   "/api/Tasks/_getTasks",
   "/api/Tasks/_getRemainingTasks",
 
+  // Timers are only scheduled and fired by synchronizations
+  "/api/Timer/schedule",
+  "/api/Timer/cancel",
+  "/api/Timer/fire",
+  "/api/Timer/_getDue",
+  "/api/Timer/_getTimer",
+
   "/api/UserAccount/updateProfile",
   "/api/UserAccount/deleteAccount",
   "/api/UserAccount/_getUserProfile",
@@ -102,3 +120,21 @@ export const exclusions: Array<string> = [
   "/api/LikertSurvey/_getSurveyResponses",
   "/api/LikertSurvey/_getRespondentAnswers",
 ];
+
+/**
+ * SCHEMAS
+ *
+ * The input schemas of passthrough routes, which are checked before the
+ * concept is, responding with 400 and the errors of each field otherwise.
+ * The schemas of Requesting routes are declared next to their syncs.
+ *
+ * schemas = {"route": { field: "string" | "number" | "date" | ... }}
+ */
+
+export const schemas: RequestSchemas = {
+  "/api/UserAccount/register": {
+    email: "string",
+    password: "string",
+    displayName: "string",
+  },
+};
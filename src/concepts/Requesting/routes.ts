@@ -0,0 +1,72 @@
+/**
+ * Route templates, such as `/tasks/:task`, let requests carry identifiers in
+ * their path instead of their body. A synchronization matches the requests of
+ * a template by their `route`, and each parameter of the template is an input
+ * field of the request:
+ *
+ *   [Requesting.request, { route: "/tasks/:task", method: "DELETE", task }, {}]
+ *
+ * The templates are those in the `when` of the registered synchronizations.
+ */
+import type { SyncConcept } from "@engine";
+
+export interface RouteMatch {
+  route: string;
+  params: Record<string, string>;
+}
+
+/**
+ * The route templates that registered synchronizations match requests by.
+ */
+export function routeTemplates(engine: SyncConcept, request: unknown) {
+  const templates: Set<string> = new Set();
+  for (const sync of Object.values(engine.syncs)) {
+    for (const when of sync.when) {
+      const route = when.input.route;
+      if (when.action === request && typeof route === "string") {
+        templates.add(route);
+      }
+    }
+  }
+  return [...templates];
+}
+
+function segments(path: string) {
+  return path.split("/").filter((segment) => segment !== "");
+}
+
+/**
+ * Finds the template that matches the path, preferring the one with the most
+ * literal segments, so that `/tasks/today` is chosen over `/tasks/:task`.
+ */
+export function matchRoute(
+  templates: string[],
+  path: string,
+): RouteMatch | undefined {
+  const parts = segments(path);
+  let best: RouteMatch | undefined;
+  let bestLiterals = -1;
+  for (const route of templates) {
+    const pattern = segments(route);
+    if (pattern.length !== parts.length) continue;
+    const params: Record<string, string> = {};
+    let literals = 0;
+    const matches = pattern.every((segment, i) => {
+      if (segment.startsWith(":")) {
+        try {
+          params[segment.slice(1)] = decodeURIComponent(parts[i]);
+        } catch {
+          return false;
+        }
+        return true;
+      }
+      literals++;
+      return segment === parts[i];
+    });
+    if (matches && literals > bestLiterals) {
+      best = { route, params };
+      bestLiterals = literals;
+    }
+  }
+  return best;
+}
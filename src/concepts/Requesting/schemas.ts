@@ -0,0 +1,152 @@
+/**
+ * Schemas of request inputs, checked by the server before a request reaches
+ * any concept. Each field is given by its type, or by a `Field` for optional
+ * fields and the contents of objects and arrays:
+ *
+ *   {
+ *     startTime: "date",
+ *     estimatedDuration: { type: "number", optional: true },
+ *     tasks: { type: "array", items: { type: "object", fields: { id: "string" } } },
+ *   }
+ *
+ * Values are converted where JSON and query strings cannot carry the type:
+ * ISO dates become `Date`s, and numeric or boolean strings become numbers and
+ * booleans. Fields not in the schema are passed on as they are.
+ */
+
+export type FieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "date"
+  | "object"
+  | "array";
+
+export interface Field {
+  type: FieldType;
+  // Whether the field may be missing or null, default false
+  optional?: boolean;
+  // The fields of an object
+  fields?: Schema;
+  // The type of each item of an array
+  items?: FieldType | Field;
+}
+
+export type Schema = Record<string, FieldType | Field>;
+
+/**
+ * The schemas of request inputs, by path or route template, such as
+ * "/Schedule/blockTime" or "/tasks/:task".
+ */
+export type RequestSchemas = Record<string, Schema>;
+
+export interface FieldError {
+  // The path of the field, such as `tasks[0].duration`
+  field: string;
+  error: string;
+}
+
+const EXPECTED: Record<FieldType, string> = {
+  string: "a string",
+  number: "a number",
+  boolean: "a boolean",
+  date: "an ISO date",
+  object: "an object",
+  array: "an array",
+};
+
+// A date, optionally with a time and an offset, such as 2025-03-07T09:30Z
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function toField(declared: FieldType | Field): Field {
+  return typeof declared === "string" ? { type: declared } : declared;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) &&
+    !(value instanceof Date);
+}
+
+function convert(
+  field: Field,
+  value: unknown,
+  name: string,
+  errors: FieldError[],
+): unknown {
+  switch (field.type) {
+    case "string":
+      if (typeof value === "string") return value;
+      break;
+    case "number": {
+      const number = typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : value;
+      if (typeof number === "number" && Number.isFinite(number)) return number;
+      break;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      break;
+    case "date": {
+      const date = value instanceof Date
+        ? value
+        : typeof value === "string" && ISO_DATE.test(value)
+        ? new Date(value)
+        : undefined;
+      if (date !== undefined && !isNaN(date.getTime())) return date;
+      break;
+    }
+    case "object":
+      if (!isRecord(value)) break;
+      return field.fields !== undefined
+        ? check(field.fields, value, `${name}.`, errors)
+        : value;
+    case "array": {
+      if (!Array.isArray(value)) break;
+      const { items } = field;
+      if (items === undefined) return value;
+      return value.map((item, i) =>
+        convert(toField(items), item, `${name}[${i}]`, errors)
+      );
+    }
+  }
+  errors.push({ field: name, error: `must be ${EXPECTED[field.type]}` });
+  return value;
+}
+
+function check(
+  schema: Schema,
+  input: Record<string, unknown>,
+  prefix: string,
+  errors: FieldError[],
+) {
+  const output = { ...input };
+  for (const [name, declared] of Object.entries(schema)) {
+    const field = toField(declared);
+    const value = input[name];
+    if (value === undefined || value === null) {
+      if (!field.optional) {
+        errors.push({ field: prefix + name, error: "is required" });
+      }
+      continue;
+    }
+    output[name] = convert(field, value, prefix + name, errors);
+  }
+  return output;
+}
+
+/**
+ * Checks the input against the schema, returning it with its fields
+ * converted to their types, or the `errors` of every field that does not
+ * match.
+ */
+export function validateInput<T extends Record<string, unknown>>(
+  schema: Schema,
+  input: T,
+): { input: T } | { errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const output = check(schema, input, "", errors) as T;
+  return errors.length > 0 ? { errors } : { input: output };
+}
@@ -0,0 +1,46 @@
+import type { Hono } from "jsr:@hono/hono";
+import type NotifyingConcept from "@concepts/Notifying/NotifyingConcept.ts";
+import { socket } from "@concepts/Notifying/NotifyingConcept.ts";
+import type SessioningConcept from "@concepts/Sessioning/SessioningConcept.ts";
+import type { ID } from "@utils/types.ts";
+
+/**
+ * Registers a WebSocket endpoint at `path`, through which clients receive
+ * the events that synchronizations push to their user with `Notifying.push`.
+ * Browsers cannot set headers when opening a WebSocket, so the session is
+ * given in the query, as `path?session=...`:
+ *
+ * - 426 unless the request upgrades to a WebSocket
+ * - 401 if the session is missing or invalid
+ *
+ * The connection is removed from Notifying once the socket closes.
+ */
+export function registerSocketRoute(
+  app: Hono,
+  path: string,
+  Sessioning: SessioningConcept,
+  Notifying: NotifyingConcept,
+) {
+  app.get(path, async (c) => {
+    if (c.req.header("upgrade")?.toLowerCase() !== "websocket") {
+      return c.json({ error: "Expected a WebSocket upgrade." }, 426);
+    }
+    const session = c.req.query("session");
+    const [found] = session !== undefined
+      ? await Sessioning._getUser({ session: session as ID })
+      : [];
+    if (found === undefined || !("user" in found)) {
+      return c.json({ error: "Invalid or expired session." }, 401);
+    }
+    const { user } = found;
+    const { socket: ws, response } = Deno.upgradeWebSocket(c.req.raw);
+    ws.onopen = async () => {
+      const connected = await Notifying.connect({ user, [socket]: ws });
+      if ("error" in connected) return ws.close();
+      const { connection } = connected;
+      ws.onclose = () => Notifying.disconnect({ connection });
+      console.log(`[Requesting] Opened connection ${connection} of ${user}`);
+    };
+    return response;
+  });
+}
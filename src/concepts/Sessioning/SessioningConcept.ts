@@ -83,4 +83,29 @@ export default class SessioningConcept {
 
     return [{ user: sessionDoc.user }];
   }
+
+  /**
+   * _getUserBatch (inputs: (session: Session)[]): (user: User)[][]
+   *
+   * **requires**: true.
+   *
+   * **effects**: returns the result of `_getUser` for each of the given inputs, in order,
+   * looking all sessions up at once.
+   */
+  async _getUserBatch(
+    inputs: { session: Session }[],
+  ): Promise<Array<Array<{ user: User }> | [{ error: string }]>> {
+    const sessionDocs = await this.sessions
+      .find({ _id: { $in: inputs.map(({ session }) => session) } })
+      .toArray();
+    const users = new Map(sessionDocs.map((doc) => [doc._id, doc.user]));
+
+    return inputs.map(({ session }) => {
+      const user = users.get(session);
+      if (user === undefined) {
+        return [{ error: `Session with id ${session} not found` }];
+      }
+      return [{ user }];
+    });
+  }
 }
@@ -253,15 +253,10 @@ export default class TasksConcept {
    * purpose: Removes all tasks associated with a user and their task list.
    * effect: removes all tasks associated with the user
    */
-  async deleteAllForUser(
-    { user }: { user: User },
-  ): Promise<Empty | { error: string }> {
-    const resultTasks = await this.tasks.deleteMany({ owner: user });
-    const resultUserTasks = await this.userTasks.deleteOne({ _id: user });
-
-    if (resultTasks.deletedCount === 0 && resultUserTasks.deletedCount === 0) {
-      return { error: `No tasks or task list found for user ${user}.` };
-    }
+  async deleteAllForUser({ user }: { user: User }): Promise<Empty> {
+    // A user without tasks has nothing to delete, as when deleting an account
+    await this.tasks.deleteMany({ owner: user });
+    await this.userTasks.deleteOne({ _id: user });
     return {};
   }
 
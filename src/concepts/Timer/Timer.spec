@@ -0,0 +1,25 @@
+<concept_spec>
+concept Timer
+  purpose to perform actions at a later time, once or on a recurring schedule
+  principle after an action is scheduled for a time, it is fired once that time has passed; a recurring timer is then due again at its next occurrence
+
+  state
+    a set of Timers with
+      an action String
+      an input Object
+      a due DateTime
+      an optional cron String
+      an optional origin String
+      an optional key String
+
+  actions
+    schedule (action: String, input: Object, at: optional DateTime, delay: optional Number, cron: optional String, origin: optional String, key: optional String): (timer: Timer)
+      requires exactly one of at, delay or cron is given
+      effect creates a new Timer due at the given time, after the delay or at the next occurrence of cron, replacing any timer with the same key
+    cancel (timer: optional Timer, key: optional String)
+      requires the timer exists
+      effect removes the timer
+    fire (timer: Timer): (timer: Timer, action: String, input: Object, origin: optional String)
+      requires the timer is due
+      effect removes the timer, or sets a recurring timer due at its next occurrence; returns its action, input and origin
+</concept_spec>
\ No newline at end of file
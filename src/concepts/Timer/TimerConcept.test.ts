@@ -0,0 +1,156 @@
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import TimerConcept from "./TimerConcept.ts";
+import { nextCron } from "./cron.ts";
+
+// A clock the tests move forward by hand
+function clock(start: string) {
+  let now = new Date(start);
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now = new Date(now.getTime() + ms);
+    },
+  };
+}
+
+Deno.test("Operational Principle: A scheduled action fires once due", async () => {
+  console.log(
+    "--- TEST: Operational Principle: A scheduled action fires once due ---",
+  );
+  const [db, client] = await testDb();
+  try {
+    const time = clock("2025-03-03T10:00:00");
+    const timer = new TimerConcept(db, time.now);
+
+    console.log(`> schedule({ action: "Sessioning.delete", delay: 60000 })`);
+    const scheduled = await timer.schedule({
+      action: "Sessioning.delete",
+      input: { session: "session:1" },
+      delay: 60_000,
+      origin: "flow:1",
+    });
+    console.log(`< ${JSON.stringify(scheduled)}`);
+    assertExists((scheduled as { timer: ID }).timer);
+    const { timer: id } = scheduled as { timer: ID };
+
+    // Not yet due, so it cannot fire
+    assertEquals(await timer._getDue({}), []);
+    const early = await timer.fire({ timer: id });
+    assertExists((early as { error: string }).error);
+
+    time.advance(60_000);
+    assertEquals(await timer._getDue({}), [
+      { timer: id, action: "Sessioning.delete" },
+    ]);
+    console.log(`> fire({ timer: "${id}" })`);
+    const fired = await timer.fire({ timer: id });
+    console.log(`< ${JSON.stringify(fired)}`);
+    assertEquals(fired, {
+      timer: id,
+      action: "Sessioning.delete",
+      input: { session: "session:1" },
+      origin: "flow:1",
+    });
+
+    // A timer fires only once
+    assertEquals(await timer._getDue({}), []);
+    const again = await timer.fire({ timer: id });
+    assertExists((again as { error: string }).error);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Scenario 1: A recurring timer is due again at its next occurrence", async () => {
+  console.log("\n--- TEST: Scenario 1: A recurring timer ---");
+  const [db, client] = await testDb();
+  try {
+    const time = clock("2025-03-03T08:30:00");
+    const timer = new TimerConcept(db, time.now);
+    const { timer: id } = await timer.schedule({
+      action: "Planner.replan",
+      input: { user: "user:A" },
+      cron: "0 9 * * 1-5",
+      key: "replan:user:A",
+    }) as { timer: ID };
+
+    let [found] = await timer._getTimer({ key: "replan:user:A" });
+    assertEquals(found.due, new Date("2025-03-03T09:00:00"));
+
+    time.advance(30 * 60_000);
+    await timer.fire({ timer: id });
+    [found] = await timer._getTimer({ key: "replan:user:A" });
+    assertEquals(found.due, new Date("2025-03-04T09:00:00"));
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Scenario 2: Keys replace timers, and timers can be cancelled", async () => {
+  console.log("\n--- TEST: Scenario 2: Keys and cancelling ---");
+  const [db, client] = await testDb();
+  try {
+    const timer = new TimerConcept(db);
+    const first = await timer.schedule({
+      action: "Focus.clearCurrentTask",
+      input: { user: "user:A" },
+      at: new Date(Date.now() + 60_000),
+      key: "nudge:user:A",
+    }) as { timer: ID };
+    const second = await timer.schedule({
+      action: "Focus.clearCurrentTask",
+      input: { user: "user:A" },
+      at: new Date(Date.now() + 120_000).toISOString(),
+      key: "nudge:user:A",
+    }) as { timer: ID };
+    const [found] = await timer._getTimer({ key: "nudge:user:A" });
+    assertEquals(found.timer, second.timer);
+
+    const missing = await timer.cancel({ timer: first.timer });
+    assertExists((missing as { error: string }).error);
+    assertEquals(await timer.cancel({ key: "nudge:user:A" }), {});
+    assertEquals(await timer._getTimer({ key: "nudge:user:A" }), []);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Scenario 3: Invalid schedules are rejected", async () => {
+  console.log("\n--- TEST: Scenario 3: Invalid schedules ---");
+  const [db, client] = await testDb();
+  try {
+    const timer = new TimerConcept(db);
+    const input = { action: "Sessioning.delete", input: {} };
+    const none = await timer.schedule(input);
+    assertExists((none as { error: string }).error);
+    const both = await timer.schedule({
+      ...input,
+      delay: 1,
+      cron: "* * * * *",
+    });
+    assertExists((both as { error: string }).error);
+    const invalid = await timer.schedule({ ...input, cron: "61 * * * *" });
+    assertExists((invalid as { error: string }).error);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Cron expressions find their next occurrence", () => {
+  const after = new Date("2025-03-07T17:45:00"); // A Friday
+  assertEquals(nextCron("* * * * *", after), new Date("2025-03-07T17:46:00"));
+  assertEquals(
+    nextCron("*/15 * * * *", after),
+    new Date("2025-03-07T18:00:00"),
+  );
+  // Weekdays only, so the next is on Monday
+  assertEquals(
+    nextCron("0 9 * * 1-5", after),
+    new Date("2025-03-10T09:00:00"),
+  );
+  assertEquals(nextCron("30 8 1 * *", after), new Date("2025-04-01T08:30:00"));
+  // Sunday is both 0 and 7
+  assertEquals(nextCron("0 0 * * 7", after), new Date("2025-03-09T00:00:00"));
+});
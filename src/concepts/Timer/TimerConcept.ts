@@ -0,0 +1,267 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+import { nextCron } from "./cron.ts";
+import "jsr:@std/dotenv/load";
+
+/**
+ * # Timer concept configuration
+ * - TIMER_POLL_INTERVAL: how often to check for due timers, default 1000ms
+ */
+const TIMER_POLL_INTERVAL = parseInt(
+  Deno.env.get("TIMER_POLL_INTERVAL") ?? "1000",
+  10,
+);
+
+type Timer = ID;
+
+/**
+ * a set of Timers with
+ *   an action String, naming the action as `Concept.action`
+ *   an input of the action
+ *   a due DateTime
+ *   an optional cron String, by which the timer recurs
+ *   an optional origin String, the flow that scheduled it
+ *   an optional key String, unique among timers
+ */
+interface TimerDoc {
+  _id: Timer;
+  action: string;
+  input: Record<string, unknown>;
+  due: Date;
+  cron?: string;
+  origin?: string;
+  key?: string;
+}
+
+const PREFIX = "Timer" + ".";
+
+// How often a keyed schedule replaces a timer inserted concurrently
+const MAX_ATTEMPTS = 3;
+
+/**
+ * @concept Timer
+ * @purpose To perform actions at a later time, once or on a recurring schedule.
+ * @principle After an action is scheduled for a time, it is fired once that time
+ * has passed; a recurring timer is then due again at its next occurrence.
+ */
+export default class TimerConcept {
+  public readonly timers: Collection<TimerDoc>;
+  public readonly ready: Promise<void>;
+
+  constructor(
+    private readonly db: Db,
+    private readonly timeProvider: () => Date = () => new Date(),
+  ) {
+    this.timers = this.db.collection<TimerDoc>(PREFIX + "timers");
+    // At most one timer has each key, even when scheduled concurrently
+    this.ready = this.timers.createIndex({ key: 1 }, {
+      unique: true,
+      sparse: true,
+    }).then(() => {}, (e) => {
+      console.error("Failed to create timer indexes:", e);
+    });
+  }
+
+  /**
+   * schedule (action: String, input: Object, at?: DateTime, delay?: Number, cron?: String, origin?: String, key?: String): (timer: Timer)
+   *
+   * **requires**: exactly one of `at`, `delay` (in milliseconds) or `cron` is given, and `cron` is valid.
+   *
+   * **effects**: creates a new Timer `t` for the action and its input, due at `at`, after `delay`, or at
+   * the next occurrence of `cron`; removes any timer with the same `key`; returns `t` as `timer`.
+   */
+  async schedule(
+    { action, input, at, delay, cron, origin, key }: {
+      action: string;
+      input: Record<string, unknown>;
+      at?: Date | string;
+      delay?: number;
+      cron?: string;
+      origin?: string;
+      key?: string;
+    },
+  ): Promise<{ timer: Timer } | { error: string }> {
+    const given = [at, delay, cron].filter((value) => value !== undefined);
+    if (given.length !== 1) {
+      return { error: "Exactly one of at, delay or cron is required." };
+    }
+    const now = this.timeProvider();
+    let due: Date;
+    if (at !== undefined) {
+      due = new Date(at);
+    } else if (delay !== undefined) {
+      due = new Date(now.getTime() + Number(delay));
+    } else {
+      try {
+        due = nextCron(cron as string, now);
+      } catch (e) {
+        return { error: (e as Error).message };
+      }
+    }
+    if (isNaN(due.getTime())) {
+      return { error: `Invalid time for ${action}.` };
+    }
+
+    const timer = freshID() as Timer;
+    const doc: TimerDoc = {
+      _id: timer,
+      action,
+      input,
+      due,
+      ...(cron !== undefined ? { cron } : {}),
+      ...(origin !== undefined ? { origin } : {}),
+      ...(key !== undefined ? { key } : {}),
+    };
+    await this.ready;
+    for (let attempt = 1;; attempt++) {
+      if (key !== undefined) await this.timers.deleteOne({ key });
+      try {
+        await this.timers.insertOne(doc);
+        return { timer };
+      } catch (e) {
+        // Another schedule with the same key inserted first, so replace it
+        const duplicate = (e as { code?: number }).code === 11000;
+        if (key === undefined || !duplicate || attempt === MAX_ATTEMPTS) {
+          return {
+            error: `Could not schedule ${action}: ${(e as Error).message}`,
+          };
+        }
+      }
+    }
+  }
+
+  /**
+   * cancel (timer?: Timer, key?: String)
+   *
+   * **requires**: a Timer with the given `timer` id or `key` exists.
+   *
+   * **effects**: removes the timer, which no longer fires.
+   */
+  async cancel(
+    { timer, key }: { timer?: Timer; key?: string },
+  ): Promise<Empty | { error: string }> {
+    if (timer === undefined && key === undefined) {
+      return { error: "Either timer or key is required." };
+    }
+    const result = await this.timers.deleteOne(
+      timer !== undefined ? { _id: timer } : { key },
+    );
+    if (result.deletedCount === 0) {
+      return { error: `Timer ${timer ?? key} not found` };
+    }
+    return {};
+  }
+
+  /**
+   * fire (timer: Timer): (timer: Timer, action: String, input: Object, origin?: String)
+   *
+   * **requires**: the given `timer` exists and is due.
+   *
+   * **effects**: removes the timer, or if it recurs, sets it due at the next occurrence of its cron
+   * after now; returns its action, input and origin.
+   */
+  async fire(
+    { timer }: { timer: Timer },
+  ): Promise<
+    { timer: Timer; action: string; input: object; origin?: string } | {
+      error: string;
+    }
+  > {
+    const now = this.timeProvider();
+    const doc = await this.timers.findOne({ _id: timer, due: { $lte: now } });
+    if (!doc) {
+      return { error: `Timer ${timer} not found or not due` };
+    }
+    // Only one server fires each occurrence, as the claim is conditional
+    const claimed = doc.cron !== undefined
+      ? await this.timers.updateOne(
+        { _id: timer, due: doc.due },
+        { $set: { due: nextCron(doc.cron, now) } },
+      ).then((result) => result.modifiedCount)
+      : await this.timers.deleteOne({ _id: timer, due: doc.due })
+        .then((result) => result.deletedCount);
+    if (claimed === 0) {
+      return { error: `Timer ${timer} was already fired` };
+    }
+    return {
+      timer,
+      action: doc.action,
+      input: doc.input,
+      ...(doc.origin !== undefined ? { origin: doc.origin } : {}),
+    };
+  }
+
+  /**
+   * _getDue (): (timer: Timer, action: String)
+   *
+   * **effects**: returns the timers that are due, earliest first, with their actions.
+   */
+  async _getDue(_: Empty): Promise<{ timer: Timer; action: string }[]> {
+    const docs = await this.timers
+      .find({ due: { $lte: this.timeProvider() } })
+      .sort({ due: 1 })
+      .toArray();
+    return docs.map((doc) => ({ timer: doc._id, action: doc.action }));
+  }
+
+  /**
+   * _getTimer (key: String): (timer: Timer, action: String, due: DateTime)
+   *
+   * **effects**: returns the timer with the given `key`, if any.
+   */
+  async _getTimer(
+    { key }: { key: string },
+  ): Promise<{ timer: Timer; action: string; due: Date }[]> {
+    const doc = await this.timers.findOne({ key });
+    if (!doc) return [];
+    return [{ timer: doc._id, action: doc.action, due: doc.due }];
+  }
+}
+
+/**
+ * Fires due timers of the Timer concept instance as they come due, each as
+ * a new flow. Timers that came due while the server was down fire on start.
+ * Since firing removes a timer, one whose action is not among the concepts is
+ * left unfired and logged once, rather than lost.
+ * @param concepts The complete instantiated concepts import from "@concepts"
+ */
+export function startTimers(
+  // deno-lint-ignore no-explicit-any
+  concepts: Record<string, any>,
+) {
+  const { Timer } = concepts;
+  if (!(Timer instanceof TimerConcept)) {
+    throw new Error("Timer concept missing or broken.");
+  }
+  const unknown = new Set<Timer>();
+  const poll = async () => {
+    try {
+      for (const { timer, action } of await Timer._getDue({})) {
+        const dot = action.lastIndexOf(".");
+        const concept = concepts[action.slice(0, dot)];
+        if (typeof concept?.[action.slice(dot + 1)] !== "function") {
+          if (!unknown.has(timer)) {
+            unknown.add(timer);
+            console.error(
+              `[Timer] Timer ${timer} has unknown action ${action}`,
+            );
+          }
+          continue;
+        }
+        try {
+          await Timer.fire({ timer });
+        } catch (e) {
+          console.error(`[Timer] Error firing timer ${timer}:`, e);
+        }
+      }
+    } catch (e) {
+      console.error(`[Timer] Error checking for due timers:`, e);
+    }
+    setTimeout(poll, TIMER_POLL_INTERVAL);
+  };
+  poll();
+  console.log(
+    `\nTimer checking for due timers every ${TIMER_POLL_INTERVAL}ms.`,
+  );
+}
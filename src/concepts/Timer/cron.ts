@@ -0,0 +1,121 @@
+/**
+ * Cron expressions with five fields, in the server's local time:
+ * minute (0-59), hour (0-23), day of month (1-31), month (1-12) and day of
+ * week (0-6, Sunday is 0 or 7). Each field is `*`, a value or a range
+ * `a-b`, optionally with a step such as `/15`, or a list of those separated
+ * by commas.
+ */
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+// Searching minute by minute would take long for rare schedules, so whole
+// days and hours that cannot match are skipped, within a bound
+const MAX_YEARS = 5;
+
+interface Cron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Whether days of month or of week are unrestricted, since a day matches
+  // if either matches when both are restricted
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+function parseField(
+  field: string,
+  { name, min, max }: typeof FIELDS[number],
+): Set<number> {
+  const values: Set<number> = new Set();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (match === null) {
+      throw new Error(`Invalid ${name} "${part}" in cron expression.`);
+    }
+    const [, range, from, to, step] = match;
+    const start = range === "*" ? min : Number(from);
+    const end = range === "*"
+      ? max
+      : to !== undefined
+      ? Number(to)
+      : step !== undefined
+      ? max
+      : start;
+    const by = step !== undefined ? Number(step) : 1;
+    if (start < min || end > max || start > end || by < 1) {
+      throw new Error(`Invalid ${name} "${part}" in cron expression.`);
+    }
+    for (let value = start; value <= end; value += by) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): Cron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression "${expression}" must have 5 fields, not ${fields.length}.`,
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseField(field, FIELDS[i])
+  );
+  // Sunday is both 0 and 7
+  if (weekdays.has(7)) weekdays.add(0);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+function matchesDay(cron: Cron, date: Date) {
+  if (!cron.months.has(date.getMonth() + 1)) return false;
+  const day = cron.days.has(date.getDate());
+  const weekday = cron.weekdays.has(date.getDay());
+  if (cron.anyDay) return weekday;
+  if (cron.anyWeekday) return day;
+  return day || weekday;
+}
+
+/**
+ * The first time after `after` that matches the cron expression.
+ */
+export function nextCron(expression: string, after: Date): Date {
+  const cron = parseCron(expression);
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_YEARS);
+  while (date <= limit) {
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+  throw new Error(
+    `Cron expression "${expression}" matches no time in ${MAX_YEARS} years.`,
+  );
+}
@@ -1,4 +1,10 @@
 import { uuid } from "./util.ts";
+import {
+  ActionLogEntry,
+  ActionQuery,
+  ActionStore,
+  InMemoryActionStore,
+} from "./store.ts";
 export interface ActionRecord {
   id?: string;
   // deno-lint-ignore ban-types
@@ -6,38 +12,82 @@ export interface ActionRecord {
   concept: object;
   input: Record<string, unknown>;
   output?: Record<string, unknown>;
+  // Set instead of output when the action threw
+  error?: ActionError;
   synced?: Map<string, string>;
   flow: string;
+  timestamp?: Date;
+}
+export interface ActionError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+export function toActionError(e: unknown): ActionError {
+  if (e instanceof Error) {
+    return { name: e.name, message: e.message, stack: e.stack };
+  }
+  return { name: "Error", message: String(e) };
 }
 export class ActionConcept {
-  actions: Map<string, ActionRecord> = new Map();
-  flowIndex: Map<string, ActionRecord[]> = new Map();
-  invoke(record: ActionRecord) {
+  constructor(public store: ActionStore = new InMemoryActionStore()) {}
+  async invoke(record: ActionRecord) {
     let id = record.id;
-    const flow = record.flow;
     if (id === undefined) {
       id = uuid();
     }
-    const actionRecord = { id, ...record };
-    this.actions.set(id, actionRecord);
-    const partition = this.flowIndex.get(flow) || [];
-    this.flowIndex.set(flow, [...partition, actionRecord]);
+    const actionRecord = { id, timestamp: new Date(), ...record };
+    await this.store.insert(actionRecord);
     // console.log("Invoke:", actionRecord);
     return { id };
   }
-  invoked({ id, output }: { id: string; output: Record<string, unknown> }) {
-    const action = this.actions.get(id);
+  async invoked(
+    { id, output, error }: {
+      id: string;
+      output?: Record<string, unknown>;
+      error?: ActionError;
+    },
+  ) {
+    const action = this.store.get(id);
     if (action === undefined) {
       throw new Error(`Action with id ${id} not found.`);
     }
-    action.output = output;
+    if (error === undefined) {
+      action.output = output;
+    } else {
+      action.error = error;
+    }
+    await this.store.update(action);
     // console.log("Invoked:", output);
     return { id };
   }
+  evict({ flow }: { flow: string }) {
+    this.store.evictFlow(flow);
+    return {};
+  }
   _getByFlow(flow: string) {
-    return this.flowIndex.get(flow);
+    return this.store.getByFlow(flow);
+  }
+  // deno-lint-ignore ban-types
+  _getByFlowAndAction(flow: string, action: Function) {
+    return this.store.getByFlowAndAction(flow, action);
   }
   _getById(id: string) {
-    return this.actions.get(id);
+    return this.store.get(id);
+  }
+  /**
+   * Queries the action log, which may outlive the records kept for matching.
+   */
+  _query(query: ActionQuery): Promise<ActionLogEntry[]> {
+    return this.store.query(query);
+  }
+  _getLogByFlow({ flow }: { flow: string }) {
+    return this.store.query({ flow });
+  }
+  _getByAction({ concept, action }: { concept: string; action?: string }) {
+    return this.store.query({ concept, action });
+  }
+  _getByTimeRange({ from, to }: { from?: Date; to?: Date }) {
+    return this.store.query({ from, to });
   }
 }
@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Transaction } from "./transactions.ts";
+import type { Span } from "./tracing.ts";
+
+/**
+ * State that follows a cascade of actions through the engine, including
+ * into concept actions, without being passed as an argument.
+ */
+export interface EngineContext {
+  transaction?: Transaction;
+  // The flow whose `where` clause is running, for the queries it makes
+  flow?: string;
+  // The span that spans started now are children of
+  span?: Span;
+}
+
+export const engineContext = new AsyncLocalStorage<EngineContext>();
+
+export function currentContext(): EngineContext {
+  return engineContext.getStore() ?? {};
+}
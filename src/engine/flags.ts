@@ -0,0 +1,99 @@
+// Groups are the prefixes of qualified sync names, as in `planner.*`
+function groupPrefix(pattern: string) {
+  if (pattern === "*") return "";
+  if (pattern.endsWith(".*")) return pattern.slice(0, -1);
+}
+
+/**
+ * Which syncs are enabled, set by name or by group, such as `planner.*` for
+ * the syncs of `planner.sync.ts`. The most specific setting applies, so a
+ * sync can be enabled within a disabled group. Syncs are enabled unless set
+ * otherwise.
+ */
+export class SyncToggles {
+  private settings: Map<string, boolean> = new Map();
+  set(pattern: string, enabled: boolean) {
+    const prefix = groupPrefix(pattern);
+    if (prefix !== undefined) {
+      // Setting a group overrides the settings of what it contains
+      for (const other of this.settings.keys()) {
+        if (other.startsWith(prefix)) this.settings.delete(other);
+      }
+    }
+    this.settings.set(pattern, enabled);
+  }
+  isEnabled(name: string): boolean {
+    const exact = this.settings.get(name);
+    if (exact !== undefined) return exact;
+    let enabled = true;
+    let longest = -1;
+    for (const [pattern, setting] of this.settings) {
+      const prefix = groupPrefix(pattern);
+      if (prefix === undefined || !name.startsWith(prefix)) continue;
+      if (prefix.length > longest) {
+        longest = prefix.length;
+        enabled = setting;
+      }
+    }
+    return enabled;
+  }
+  entries(): Record<string, boolean> {
+    return Object.fromEntries(this.settings);
+  }
+}
+
+/**
+ * The users a feature flag is on for: those listed, and a stable share of
+ * all others.
+ */
+export interface FlagRollout {
+  users?: string[];
+  // Percentage of the other users, from 0 to 100
+  percentage?: number;
+}
+
+// FNV-1a, so that a user stays in or out of a rollout as it grows
+function bucket(flag: string, user: string) {
+  let hash = 0x811c9dc5;
+  for (const char of `${flag}:${user}`) {
+    hash ^= char.codePointAt(0) as number;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash % 100;
+}
+
+/**
+ * Per-user feature flags that gate syncs declaring a `flag`. A flag that
+ * was never set is on for everyone, so that declaring a flag on a sync
+ * changes nothing until its rollout is set.
+ */
+export class FeatureFlags {
+  private flags: Map<string, FlagRollout> = new Map();
+  set(flag: string, rollout: FlagRollout) {
+    const { percentage } = rollout;
+    if (
+      percentage !== undefined &&
+      !(typeof percentage === "number" && percentage >= 0 &&
+        percentage <= 100)
+    ) {
+      throw new Error(
+        `Percentage of flag ${flag} must be from 0 to 100, got ${percentage}.`,
+      );
+    }
+    this.flags.set(flag, rollout);
+  }
+  delete(flag: string) {
+    this.flags.delete(flag);
+  }
+  isEnabled(flag: string, user?: string): boolean {
+    const rollout = this.flags.get(flag);
+    if (rollout === undefined) return true;
+    const percentage = rollout.percentage ?? 0;
+    if (user === undefined) return percentage >= 100;
+    if (rollout.users?.includes(user)) return true;
+    return bucket(flag, user) < percentage;
+  }
+  entries(): Record<string, FlagRollout> {
+    return Object.fromEntries(this.flags);
+  }
+}
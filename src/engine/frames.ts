@@ -4,6 +4,8 @@
   Licensed under the Creative Commons Attribution-NonCommercial-ShareAlike 4.0 International.
   See https://creativecommons.org/licenses/by-nc-sa/4.0/
 */
+import { runConcurrently } from "./util.ts";
+
 export type Mapping = Record<string, unknown>;
 export type Frame = Record<symbol, unknown>;
 
@@ -19,6 +21,202 @@ type ExtractSymbolMappings<TOutputMapping, TFunctionOutput> = {
   ]: K extends keyof TFunctionOutput ? TFunctionOutput[K] : never;
 };
 
+/**
+ * Aggregates computed over each group of `groupBy`, written to the symbol
+ * they are keyed by, e.g. `{ [total]: sum(minutes), [tasks]: count() }`.
+ */
+export type Aggregate =
+  | { op: "count" }
+  | { op: "sum" | "min" | "max"; of: symbol };
+
+export function count(): Aggregate {
+  return { op: "count" };
+}
+export function sum(of: symbol): Aggregate {
+  return { op: "sum", of };
+}
+export function min(of: symbol): Aggregate {
+  return { op: "min", of };
+}
+export function max(of: symbol): Aggregate {
+  return { op: "max", of };
+}
+
+function aggregate(agg: Aggregate, frames: Frame[]) {
+  if (agg.op === "count") return frames.length;
+  const values = frames.map((frame) => frame[agg.of]).filter((v) =>
+    v !== undefined && v !== null
+  );
+  if (agg.op === "sum") {
+    return values.reduce((total: number, v) => total + Number(v), 0);
+  }
+  if (values.length === 0) return null;
+  return values.reduce((best, v) =>
+    (agg.op === "min" ? compare(v, best) < 0 : compare(v, best) > 0) ? v : best
+  );
+}
+
+// Orders numbers, strings and dates, with missing values last
+function compare(a: unknown, b: unknown) {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  return (a as number) < (b as number) ? -1 : 1;
+}
+
+// Ids of the symbols of frames, and of values that `canonicalKey` cannot
+// represent, each equal only to itself
+const identities = new WeakMap<WeakKey, number>();
+let nextIdentity = 0;
+
+function identity(value: unknown) {
+  if (typeof value === "symbol" && Symbol.keyFor(value) !== undefined) {
+    return `r${JSON.stringify(Symbol.keyFor(value))}`;
+  }
+  let id = identities.get(value as WeakKey);
+  if (id === undefined) {
+    id = nextIdentity++;
+    identities.set(value as WeakKey, id);
+  }
+  return `#${id}`;
+}
+
+// A key of the values a frame binds to the given symbols, whatever their
+// order, equal only for frames whose values are equal as by `canonicalKey`
+function keyOf(frame: Frame, symbols: symbol[]) {
+  return symbols
+    .map((symbol) => {
+      const value = frame[symbol];
+      return `${identity(symbol)}:${canonicalKey(value) ?? identity(value)}`;
+    })
+    .sort()
+    .join(",");
+}
+
+/**
+ * A key of a query input that is equal only for inputs with equal values,
+ * whatever the order of their fields. Values keep their types, so that
+ * `undefined`, dates and ObjectIds are told apart from other values. An
+ * input with a value the key cannot represent, such as a symbol, function
+ * or other class instance, has no key.
+ */
+function canonicalKey(value: unknown): string | undefined {
+  switch (typeof value) {
+    case "undefined":
+      return "u";
+    case "string":
+      return `s${JSON.stringify(value)}`;
+    case "number":
+      return `n${Object.is(value, -0) ? "-0" : value}`;
+    case "boolean":
+      return `b${value}`;
+    case "bigint":
+      return `i${value}`;
+    case "object":
+      break;
+    default:
+      return undefined;
+  }
+  if (value === null) return "null";
+  if (value instanceof Date) return `d${value.getTime()}`;
+  const { _bsontype } = value as { _bsontype?: unknown };
+  if (_bsontype === "ObjectId") return `o${String(value)}`;
+  if (Array.isArray(value)) {
+    const items = value.map(canonicalKey);
+    if (items.includes(undefined)) return undefined;
+    return `[${items.join(",")}]`;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) return undefined;
+  if (Object.getOwnPropertySymbols(value).length > 0) return undefined;
+  const fields = [];
+  for (const name of Object.keys(value).sort()) {
+    const field = canonicalKey((value as Record<string, unknown>)[name]);
+    if (field === undefined) return undefined;
+    fields.push(`${JSON.stringify(name)}:${field}`);
+  }
+  return `{${fields.join(",")}}`;
+}
+
+/**
+ * A variant of a query answering many inputs in one call, such as a single
+ * `$in` lookup, with the results of each input in order. The engine
+ * attaches it to a query `_q` whose concept also defines `_qBatch`.
+ */
+export type BatchQuery = (
+  inputs: never[],
+) => unknown[][] | Promise<unknown[][]>;
+
+function bindInput(frame: Frame, input: Record<string, unknown>) {
+  const entries = Object.entries(input).map(([key, binding]) => {
+    if (typeof binding !== "symbol") return [key, binding];
+    const bound = frame[binding];
+    if (bound === undefined) {
+      throw new Error(
+        `Binding: ${String(binding)} not found in frame: ${frame}`,
+      );
+    }
+    return [key, bound];
+  });
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Calls a query for every frame, returning the results of each frame in
+ * order. Frames with equal bound inputs share one call, and an async
+ * query runs at most `Frames.concurrency` calls at once, or a single call
+ * of its batch variant if it has one.
+ */
+function runQuery(
+  frames: Frame[],
+  f: ((...args: never[]) => unknown[] | Promise<unknown[]>) & {
+    batch?: BatchQuery;
+  },
+  input: Record<string, unknown>,
+): unknown[][] | Promise<unknown[][]> {
+  const keys: unknown[] = [];
+  const calls = new Map<unknown, Record<string, unknown>>();
+  for (const frame of frames) {
+    const boundInput = bindInput(frame, input);
+    // An input without a canonical key gets a call of its own
+    const key = canonicalKey(boundInput) ?? {};
+    keys.push(key);
+    if (!calls.has(key)) calls.set(key, boundInput);
+  }
+  const results = new Map<unknown, unknown[]>();
+  const inOrder = () => keys.map((key) => results.get(key) as unknown[]);
+  const pending = [...calls];
+
+  if (f.batch !== undefined && pending.length > 0) {
+    const record = (batched: unknown[][]) => {
+      pending.forEach(([key], i) => results.set(key, batched[i] ?? []));
+      return inOrder();
+    };
+    const batched = f.batch(pending.map(([, call]) => call as never));
+    return batched instanceof Promise ? batched.then(record) : record(batched);
+  }
+
+  for (const [i, [key, call]] of pending.entries()) {
+    const maybeArray = f(call as never);
+    if (!(maybeArray instanceof Promise)) {
+      results.set(key, maybeArray);
+      continue;
+    }
+    // The query is async: run the remaining calls with bounded concurrency
+    return runConcurrently(
+      pending.slice(i),
+      Frames.concurrency,
+      async ([pendingKey, pendingCall]) => {
+        results.set(
+          pendingKey,
+          await (pendingKey === key ? maybeArray : f(pendingCall as never)),
+        );
+      },
+    ).then(inOrder);
+  }
+  return inOrder();
+}
+
 export interface Frames<TFrame extends Frame = Frame> {
   map<U extends Frame>(
     callbackfn: (
@@ -96,6 +294,9 @@ export interface Frames<TFrame extends Frame = Frame> {
 }
 
 export class Frames<TFrame extends Frame = Frame> extends Array<TFrame> {
+  // The most calls of an async query that `query` runs at once
+  static concurrency = 16;
+
   constructor(...frames: TFrame[]) {
     super(...frames);
     // Return a proxy that only handles method interception
@@ -161,68 +362,31 @@ export class Frames<TFrame extends Frame = Frame> extends Array<TFrame> {
     input: Record<string, unknown>,
     output: Record<string, symbol>,
   ): Frames | Promise<Frames> {
-    const result = new Frames();
-    const promises: Promise<void>[] = [];
-
-    const processOutputs = (
-      frame: Frame,
-      functionOutputArray: unknown[],
-    ) => {
-      for (const functionOutput of functionOutputArray) {
-        const newFrame = { ...frame };
-        for (const [outputKey, symbolKey] of Object.entries(output)) {
-          if (
-            typeof symbolKey === "symbol" &&
-            functionOutput &&
-            typeof functionOutput === "object" &&
-            outputKey in functionOutput
-          ) {
-            (newFrame as Record<symbol, unknown>)[symbolKey] =
-              (functionOutput as Record<string, unknown>)[
-                outputKey
-              ];
+    const withOutputs = (results: unknown[][]) => {
+      const result = new Frames();
+      this.forEach((frame, i) => {
+        for (const functionOutput of results[i]) {
+          const newFrame: Frame = { ...frame };
+          for (const [outputKey, symbolKey] of Object.entries(output)) {
+            if (
+              typeof symbolKey === "symbol" &&
+              functionOutput &&
+              typeof functionOutput === "object" &&
+              outputKey in functionOutput
+            ) {
+              newFrame[symbolKey] =
+                (functionOutput as Record<string, unknown>)[outputKey];
+            }
           }
+          result.push(newFrame);
         }
-        result.push(newFrame as unknown as Frame);
-      }
+      });
+      return result;
     };
-
-    for (const frame of this) {
-      const entries: [string, unknown][] = [];
-      for (const [key, binding] of Object.entries(input)) {
-        let value: unknown = binding;
-        if (typeof binding === "symbol") {
-          const bound = (frame as Record<symbol, unknown>)[binding];
-          if (bound === undefined) {
-            throw new Error(
-              `Binding: ${String(binding)} not found in frame: ${frame}`,
-            );
-          }
-          value = bound;
-        }
-        entries.push([key, value]);
-      }
-      const boundInput = Object.fromEntries(entries);
-
-      const maybeArray = f(boundInput as never);
-      if (
-        typeof (maybeArray as Promise<unknown[]>).then === "function"
-      ) {
-        // async path
-        const p = (maybeArray as Promise<unknown[]>).then((arr) => {
-          processOutputs(frame, arr);
-        });
-        promises.push(p);
-      } else {
-        // sync path
-        processOutputs(frame, maybeArray as unknown[]);
-      }
-    }
-
-    if (promises.length > 0) {
-      return Promise.all(promises).then(() => result);
-    }
-    return result;
+    const results = runQuery(this, f, input);
+    return results instanceof Promise
+      ? results.then(withOutputs)
+      : withOutputs(results);
   }
 
   async queryAsync<
@@ -239,50 +403,116 @@ export class Frames<TFrame extends Frame = Frame> extends Array<TFrame> {
     input: TInputMapping,
     output: TOutputMapping,
   ): Promise<Frames<TNewFrame>> {
-    const result = new Frames<TNewFrame>();
-
+    return await this.query(f, input, output) as Frames<TNewFrame>;
+  }
+  /**
+   * Anti-join: keeps only the frames for which the query returns no result.
+   * Output symbols that are already bound narrow the results to those with
+   * equal values, e.g. tasks of a user without a slot of that user.
+   */
+  notExists<TFunction extends (...args: never[]) => unknown[]>(
+    f: TFunction,
+    input: Record<string, unknown>,
+    output?: Record<string, symbol>,
+  ): Frames<TFrame>;
+  notExists<TFunction extends (...args: never[]) => Promise<unknown[]>>(
+    f: TFunction,
+    input: Record<string, unknown>,
+    output?: Record<string, symbol>,
+  ): Promise<Frames<TFrame>>;
+  notExists(
+    f: (...args: never[]) => unknown[] | Promise<unknown[]>,
+    input: Record<string, unknown>,
+    output: Record<string, symbol> = {},
+  ): Frames<TFrame> | Promise<Frames<TFrame>> {
+    const exists = (frame: TFrame, results: unknown[]) =>
+      results.some((result) =>
+        Object.entries(output).every(([key, symbol]) => {
+          const bound = frame[symbol];
+          return bound === undefined ||
+            (result as Record<string, unknown>)?.[key] === bound;
+        })
+      );
+    const results = runQuery(this, f, input);
+    const keep = (resolved: unknown[][]) =>
+      this.filter((frame, i) => !exists(frame, resolved[i]));
+    return results instanceof Promise ? results.then(keep) : keep(results);
+  }
+  /**
+   * Inner join with another set of frames: every pair of frames that agree
+   * on the shared symbols (or only on `on`, if given) is merged. Named so as
+   * not to shadow `Array.prototype.join`.
+   */
+  innerJoin<TOther extends Frame>(
+    other: Frames<TOther>,
+    on?: symbol[],
+  ): Frames<TFrame & TOther> {
+    const result = new Frames<TFrame & TOther>();
     for (const frame of this) {
-      const entries: [string, unknown][] = [];
-      // Lookup any unbound variables
-      for (const [key, binding] of Object.entries(input)) {
-        let value: unknown = binding;
-        if (typeof binding === "symbol") {
-          const bound = frame[binding];
-          if (bound === undefined) {
-            throw new Error(
-              `Binding: ${String(binding)} not found in frame: ${frame}`,
-            );
-          }
-          value = bound;
-        }
-        entries.push([key, value]);
+      for (const otherFrame of other) {
+        const shared = on ??
+          Object.getOwnPropertySymbols(frame).filter((symbol) =>
+            symbol in otherFrame
+          );
+        const agree = shared.every((symbol) =>
+          frame[symbol] === (otherFrame as Frame)[symbol]
+        );
+        if (agree) result.push({ ...frame, ...otherFrame });
       }
-      const boundInput = Object.fromEntries(entries);
-
-      // Execute the function - expect array of bindings (async)
-      const functionOutputArray = await f(
-        boundInput as Parameters<TFunction>[0],
-      );
-
-      for (const functionOutput of functionOutputArray) {
-        // Create new frame with output bindings
-        const newFrame = { ...frame };
-        for (const [outputKey, symbolKey] of Object.entries(output)) {
-          if (
-            typeof symbolKey === "symbol" &&
-            functionOutput &&
-            typeof functionOutput === "object" &&
-            outputKey in functionOutput
-          ) {
-            (newFrame as Record<symbol, unknown>)[symbolKey] =
-              (functionOutput as Record<string, unknown>)[
-                outputKey
-              ];
-          }
-        }
-
-        result.push(newFrame as unknown as TNewFrame);
+    }
+    return result;
+  }
+  /**
+   * Groups frames by the values of `by`, producing one frame per group with
+   * those values and the given aggregates. No frames produce no groups.
+   */
+  groupBy(by: symbol[], aggregates: Record<symbol, Aggregate>): Frames {
+    const groups = new Map<string, TFrame[]>();
+    for (const frame of this) {
+      const key = keyOf(frame, by);
+      const members = groups.get(key);
+      if (members === undefined) groups.set(key, [frame]);
+      else members.push(frame);
+    }
+    const result = new Frames();
+    for (const members of groups.values()) {
+      const newFrame: Frame = {};
+      for (const symbol of by) newFrame[symbol] = members[0][symbol];
+      for (const symbol of Object.getOwnPropertySymbols(aggregates)) {
+        newFrame[symbol] = aggregate(aggregates[symbol], members);
       }
+      result.push(newFrame);
+    }
+    return result;
+  }
+  /**
+   * Sorts frames by the value bound to a symbol, keeping the order of
+   * frames with equal values.
+   */
+  sortBy(symbol: symbol, direction: "asc" | "desc" = "asc"): Frames<TFrame> {
+    const sign = direction === "asc" ? 1 : -1;
+    return new Frames(...this).sort((a, b) =>
+      sign * compare(a[symbol], b[symbol])
+    );
+  }
+  limit(n: number): Frames<TFrame> {
+    return new Frames(...this.slice(0, n));
+  }
+  /**
+   * Removes frames binding the same values to `symbols` (by default, all of
+   * their symbols) as an earlier frame.
+   */
+  distinct(symbols?: symbol[]): Frames<TFrame> {
+    const seen = new Set<string>();
+    const result = new Frames<TFrame>();
+    for (const frame of this) {
+      const key = keyOf(
+        frame,
+        symbols ?? Object.getOwnPropertySymbols(frame),
+      );
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.push(frame);
     }
     return result;
   }
@@ -320,10 +550,9 @@ export class Frames<TFrame extends Frame = Frame> extends Array<TFrame> {
       }
 
       // Create a stable key for grouping
-      const groupKey = JSON.stringify(
-        Object.getOwnPropertySymbols(groupKeys)
-          .sort((a, b) => String(a).localeCompare(String(b)))
-          .map((sym) => [String(sym), groupKeys[sym]]),
+      const groupKey = keyOf(
+        groupKeys,
+        Object.getOwnPropertySymbols(groupKeys),
       );
 
       if (!groups.has(groupKey)) {
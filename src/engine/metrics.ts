@@ -0,0 +1,220 @@
+// Upper bounds of the histogram buckets, in seconds, as Prometheus defaults
+const BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Histogram {
+  // Observations at most each bound, excluding those of lower bounds
+  public counts: number[] = BUCKETS.map(() => 0);
+  public sum = 0;
+  public count = 0;
+  observe(value: number) {
+    const i = BUCKETS.findIndex((bound) => value <= bound);
+    if (i !== -1) this.counts[i]++;
+    this.sum += value;
+    this.count++;
+  }
+}
+
+export interface SyncMetrics {
+  // Times an action the sync has a `when` pattern for occurred
+  considered: number;
+  // Times all of its `when` patterns matched
+  matched: number;
+  whenFrames: number;
+  whereFrames: number;
+  // Times it dispatched its `then`, and the actions dispatched
+  fired: number;
+  thenActions: number;
+  // Actions declared with `once` it dispatched after another sync had
+  conflicts: number;
+  // Actions skipped as an earlier action of the same firing failed
+  skipped: number;
+  whereSeconds: Histogram;
+}
+
+export interface ActionMetrics {
+  concept: string;
+  action: string;
+  invocations: number;
+  errors: number;
+  seconds: Histogram;
+}
+
+function escape(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(
+    /\n/g,
+    "\\n",
+  );
+}
+
+function labels(values: Record<string, string>) {
+  const pairs = Object.entries(values).map(([key, value]) =>
+    `${key}="${escape(value)}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+/**
+ * Counters and histograms of every registered sync and every action, which
+ * show syncs that never fire and those that dominate latency.
+ */
+export class EngineMetrics {
+  public syncs: Map<string, SyncMetrics> = new Map();
+  public actions: Map<string, ActionMetrics> = new Map();
+  sync(name: string): SyncMetrics {
+    let metrics = this.syncs.get(name);
+    if (metrics === undefined) {
+      metrics = {
+        considered: 0,
+        matched: 0,
+        whenFrames: 0,
+        whereFrames: 0,
+        fired: 0,
+        thenActions: 0,
+        conflicts: 0,
+        skipped: 0,
+        whereSeconds: new Histogram(),
+      };
+      this.syncs.set(name, metrics);
+    }
+    return metrics;
+  }
+  action(concept: string, action: string): ActionMetrics {
+    const key = `${concept}.${action}`;
+    let metrics = this.actions.get(key);
+    if (metrics === undefined) {
+      metrics = {
+        concept,
+        action,
+        invocations: 0,
+        errors: 0,
+        seconds: new Histogram(),
+      };
+      this.actions.set(key, metrics);
+    }
+    return metrics;
+  }
+  /**
+   * Renders all metrics in the Prometheus text exposition format.
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const counter = <T>(
+      name: string,
+      help: string,
+      entries: Iterable<[Record<string, string>, T]>,
+      value: (metrics: T) => number,
+    ) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+      for (const [labelValues, metrics] of entries) {
+        lines.push(`${name}${labels(labelValues)} ${value(metrics)}`);
+      }
+    };
+    const histogram = <T>(
+      name: string,
+      help: string,
+      entries: Iterable<[Record<string, string>, T]>,
+      value: (metrics: T) => Histogram,
+    ) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`);
+      for (const [labelValues, metrics] of entries) {
+        const { counts, sum, count } = value(metrics);
+        let cumulative = 0;
+        BUCKETS.forEach((bound, i) => {
+          cumulative += counts[i];
+          const bucket = labels({ ...labelValues, le: String(bound) });
+          lines.push(`${name}_bucket${bucket} ${cumulative}`);
+        });
+        const inf = labels({ ...labelValues, le: "+Inf" });
+        lines.push(`${name}_bucket${inf} ${count}`);
+        lines.push(`${name}_sum${labels(labelValues)} ${sum}`);
+        lines.push(`${name}_count${labels(labelValues)} ${count}`);
+      }
+    };
+
+    const syncs = () =>
+      [...this.syncs].map((
+        [sync, metrics],
+      ): [Record<string, string>, SyncMetrics] => [{ sync }, metrics]);
+    counter(
+      "engine_sync_considered_total",
+      "Times an action matching one of the sync's `when` patterns occurred.",
+      syncs(),
+      (m) => m.considered,
+    );
+    counter(
+      "engine_sync_matched_total",
+      "Times all of the sync's `when` patterns matched.",
+      syncs(),
+      (m) => m.matched,
+    );
+    counter(
+      "engine_sync_when_frames_total",
+      "Frames produced by the sync's `when`.",
+      syncs(),
+      (m) => m.whenFrames,
+    );
+    counter(
+      "engine_sync_where_frames_total",
+      "Frames left by the sync's `where`.",
+      syncs(),
+      (m) => m.whereFrames,
+    );
+    counter(
+      "engine_sync_fired_total",
+      "Times the sync dispatched its `then`.",
+      syncs(),
+      (m) => m.fired,
+    );
+    counter(
+      "engine_sync_then_actions_total",
+      "Actions dispatched by the sync's `then`.",
+      syncs(),
+      (m) => m.thenActions,
+    );
+    counter(
+      "engine_sync_conflicts_total",
+      "Actions the sync dispatched after another sync, such as a second response to a request, which were skipped.",
+      syncs(),
+      (m) => m.conflicts,
+    );
+    counter(
+      "engine_sync_skipped_total",
+      "Actions of the sync's `then` skipped as an earlier action of the same firing failed.",
+      syncs(),
+      (m) => m.skipped,
+    );
+    histogram(
+      "engine_sync_where_duration_seconds",
+      "Time spent in the sync's `where`.",
+      syncs(),
+      (m) => m.whereSeconds,
+    );
+
+    const actions = () =>
+      [...this.actions.values()].map((
+        metrics,
+      ): [Record<string, string>, ActionMetrics] => [
+        { concept: metrics.concept, action: metrics.action },
+        metrics,
+      ]);
+    counter(
+      "engine_action_invocations_total",
+      "Times the action was invoked.",
+      actions(),
+      (m) => m.invocations,
+    );
+    counter(
+      "engine_action_errors_total",
+      "Times the action threw.",
+      actions(),
+      (m) => m.errors,
+    );
+    histogram(
+      "engine_action_duration_seconds",
+      "Time spent in the action itself, excluding the syncs it causes.",
+      actions(),
+      (m) => m.seconds,
+    );
+    return lines.join("\n") + "\n";
+  }
+}
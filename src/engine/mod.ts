@@ -1,3 +1,66 @@
 export { actions, Logging, SyncConcept } from "./sync.ts";
-export { Frames } from "./frames.ts";
-export type { Empty, SyncFunction as Sync, Vars } from "./types.ts";
+export { count, Frames, max, min, sum } from "./frames.ts";
+export type { Aggregate, BatchQuery } from "./frames.ts";
+export { absent, anyAction, later, not, optional, thrown } from "./patterns.ts";
+export type { AnyActionOptions, Schedule } from "./patterns.ts";
+export { ActionConcept } from "./actions.ts";
+export { buildGraph, toDot, validateSyncs } from "./validate.ts";
+export { parseRecording, serializeRecording } from "./replay.ts";
+export { JsonLinesExporter, OtlpExporter, Tracer } from "./tracing.ts";
+export { EngineMetrics, Histogram } from "./metrics.ts";
+export type { ActionMetrics, SyncMetrics } from "./metrics.ts";
+export { FeatureFlags, SyncToggles } from "./flags.ts";
+export type { FlagRollout } from "./flags.ts";
+export type {
+  OtlpExporterOptions,
+  Span,
+  SpanAttributes,
+  SpanExporter,
+} from "./tracing.ts";
+export type {
+  Divergence,
+  FlowRecording,
+  RecordedAction,
+  RecordedQuery,
+  RecordedStep,
+  ReplayReport,
+} from "./replay.ts";
+export {
+  currentSession,
+  sessionAware,
+  TransactionAbortedError,
+} from "./transactions.ts";
+export type { SessionProvider } from "./transactions.ts";
+export type {
+  SyncGraph,
+  ValidationIssue,
+  ValidationOptions,
+  ValidationReport,
+} from "./validate.ts";
+export type { ActionError, ActionRecord } from "./actions.ts";
+export {
+  actionNames,
+  conceptName,
+  InMemoryActionStore,
+  MongoActionStore,
+  redact,
+  SENSITIVE_FIELDS,
+} from "./store.ts";
+export type {
+  ActionLogEntry,
+  ActionQuery,
+  ActionStore,
+  MongoActionStoreOptions,
+  RetentionPolicy,
+} from "./store.ts";
+export type {
+  ActionInput,
+  ActionOutput,
+  Empty,
+  Execution,
+  FlowFinished,
+  FlowListener,
+  NearMiss,
+  SyncFunction as Sync,
+  Vars,
+} from "./types.ts";
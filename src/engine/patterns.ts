@@ -0,0 +1,113 @@
+import type { InstrumentedAction, Mapping } from "./types.ts";
+
+/**
+ * Output pattern matching an action that threw instead of returning.
+ * The mapping is matched against the error's `name` and `message`.
+ */
+export class Thrown {
+  constructor(public readonly error: Mapping) {}
+}
+
+export function thrown(error: Mapping = {}) {
+  return new Thrown(error);
+}
+
+/**
+ * Field pattern that matches whether or not the field is present. When it is
+ * absent, a variable pattern is bound to `fallback` instead.
+ */
+export class Optional {
+  constructor(
+    public readonly pattern: unknown,
+    public readonly fallback: unknown,
+  ) {}
+}
+
+export function optional(pattern: unknown, fallback: unknown = null) {
+  return new Optional(pattern, fallback);
+}
+
+/**
+ * Field pattern that only matches when the field is not present, such as
+ * `{ error: absent() }` for an action that did not return an error.
+ */
+export class Absent {}
+
+export function absent() {
+  return new Absent();
+}
+
+/**
+ * Field pattern that matches when the field is absent or differs from the
+ * given value. A variable must already be bound by an earlier pattern.
+ */
+export class Not {
+  constructor(public readonly value: unknown) {}
+}
+
+export function not(value: unknown) {
+  return new Not(value);
+}
+
+export interface AnyActionOptions {
+  // Only match actions of this instrumented concept
+  of?: object;
+  // Only match actions whose names satisfy the predicate
+  name?: (action: string, concept: string) => boolean;
+  // Variables bound to the names of the matched concept and action
+  concept?: symbol;
+  action?: symbol;
+}
+
+/**
+ * Action position of a `when` pattern that matches any action, optionally
+ * restricted to one concept or by name. Since it also matches the actions a
+ * sync causes itself, restrict it enough to exclude its own `then`.
+ */
+export class AnyAction {
+  constructor(public readonly options: AnyActionOptions) {}
+}
+
+export function anyAction(options: AnyActionOptions = {}) {
+  return new AnyAction(options);
+}
+
+/**
+ * When an action of a `then` runs: at a time, after a delay in
+ * milliseconds, or on a cron schedule such as `"0 9 * * 1-5"`. Each may be
+ * a variable. Scheduling again with the same `key` replaces the timer.
+ */
+export interface Schedule {
+  at?: unknown;
+  delay?: unknown;
+  cron?: unknown;
+  key?: unknown;
+}
+
+// The schedules of actions wrapped by `later`
+const schedules: WeakMap<object, Schedule> = new WeakMap();
+
+/**
+ * Action position of a `then` pattern that schedules the action instead of
+ * invoking it. The engine passes it to the action set by `scheduleWith`,
+ * and once due, invokes it as a new flow linked to the one scheduling it.
+ */
+export function later<A extends InstrumentedAction>(
+  action: A,
+  schedule: Schedule,
+): A {
+  if (action.concept === undefined) {
+    throw new Error(`Action ${action.name} is not instrumented.`);
+  }
+  const scheduled = function scheduled() {
+    throw new Error(`Scheduled ${action.name} can only be used in \`then\`.`);
+  } as unknown as A;
+  scheduled.concept = action.concept;
+  scheduled.action = action.action;
+  schedules.set(scheduled, schedule);
+  return scheduled;
+}
+
+export function scheduleOf(action: object): Schedule | undefined {
+  return schedules.get(action);
+}
@@ -0,0 +1,327 @@
+import type { ActionError, ActionRecord } from "./actions.ts";
+import { actionNames } from "./store.ts";
+import type { Frame, Mapping } from "./types.ts";
+
+/**
+ * An action of a recorded flow, referred to by name so that the recording
+ * can be saved as JSON.
+ */
+export interface RecordedAction {
+  concept: string;
+  action: string;
+  input: Mapping;
+  output?: Mapping;
+  error?: ActionError;
+  // The sync whose `then` caused the action, if any
+  sync?: string;
+}
+
+export interface RecordedQuery {
+  concept: string;
+  query: string;
+  input: Mapping;
+  output: unknown[];
+}
+
+/**
+ * The frames of a sync after matching its `when`, or after its `where`,
+ * keyed by variable name.
+ */
+export interface RecordedStep {
+  sync: string;
+  stage: "when" | "where";
+  // The action that triggered the sync, as `Concept.action`
+  after: string;
+  frames: Mapping[];
+}
+
+export interface FlowRecording {
+  flow: string;
+  root: { concept: string; action: string; input: Mapping };
+  // In the order they were invoked
+  actions: RecordedAction[];
+  queries: RecordedQuery[];
+  steps: RecordedStep[];
+}
+
+export interface Divergence {
+  kind: "missing" | "extra" | "changed" | "frames" | "query";
+  message: string;
+  sync?: string;
+}
+
+export interface ReplayReport {
+  // The flow as it ran during the replay
+  replayed: FlowRecording;
+  divergences: Divergence[];
+}
+
+// Dates survive the round trip through JSON as `{ $date: string }`
+function replacer(this: Record<string, unknown>, key: string, value: unknown) {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+function reviver(_: string, value: unknown) {
+  const tagged = value as { $date?: unknown } | null;
+  if (
+    typeof tagged === "object" && tagged !== null &&
+    typeof tagged.$date === "string" && Object.keys(tagged).length === 1
+  ) {
+    return new Date(tagged.$date);
+  }
+  return value;
+}
+
+export function serializeRecording(recording: FlowRecording): string {
+  return JSON.stringify(recording, replacer, 2);
+}
+
+export function parseRecording(text: string): FlowRecording {
+  return JSON.parse(text, reviver);
+}
+
+function canonical(value: unknown) {
+  return JSON.stringify(value, replacer);
+}
+
+// A copy that later changes by concepts cannot affect
+function snapshot<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(canonical(value), reviver);
+}
+
+/**
+ * Collects the queries and frames of a flow as it runs, and the actions of
+ * the flow once it has finished.
+ */
+export class FlowRecorder {
+  private queries: RecordedQuery[] = [];
+  private steps: RecordedStep[] = [];
+  query(concept: string, query: string, input: Mapping, output: unknown[]) {
+    this.queries.push({
+      concept,
+      query,
+      input: snapshot(input),
+      output: snapshot(output),
+    });
+  }
+  step(
+    sync: string,
+    stage: "when" | "where",
+    after: string,
+    frames: Frame[],
+    hidden: Set<symbol>,
+  ) {
+    const named = frames.map((frame) =>
+      Object.fromEntries(
+        Object.getOwnPropertySymbols(frame)
+          .filter((symbol) => !hidden.has(symbol))
+          .map((
+            symbol,
+          ) => [symbol.description ?? String(symbol), frame[symbol]]),
+      )
+    );
+    this.steps.push({ sync, stage, after, frames: snapshot(named) });
+  }
+  finish(flow: string, records: ActionRecord[]): FlowRecording {
+    const causes: Map<string, string> = new Map();
+    for (const record of records) {
+      for (const [sync, id] of record.synced ?? []) causes.set(id, sync);
+    }
+    const actions = records.map((record): RecordedAction => {
+      const cause = causes.get(record.id as string);
+      return {
+        ...actionNames(record),
+        input: snapshot(record.input),
+        ...(record.output ? { output: snapshot(record.output) } : {}),
+        ...(record.error ? { error: record.error } : {}),
+        ...(cause ? { sync: cause } : {}),
+      };
+    });
+    const [{ concept, action, input }] = actions;
+    return {
+      flow,
+      root: { concept, action, input },
+      actions,
+      queries: this.queries,
+      steps: this.steps,
+    };
+  }
+}
+
+// A copy in which the id of one flow stands for that of another, such as in
+// the `origin` of an action scheduled by the flow
+function renameFlow<T>(value: T, from: string, to: string): T {
+  const text = canonical(value).replaceAll(
+    JSON.stringify(from),
+    JSON.stringify(to),
+  );
+  return JSON.parse(text, reviver);
+}
+
+// Pairs up items of two lists with equal keys, preferring equal values
+function pair<T>(
+  recorded: T[],
+  replayed: T[],
+  key: (item: T) => string,
+  value: (item: T) => string,
+) {
+  const pairs: [T, T][] = [];
+  const unpaired = [...replayed];
+  const missing: T[] = [];
+  const changed: T[] = [];
+  for (const item of recorded) {
+    const i = unpaired.findIndex((other) =>
+      key(other) === key(item) && value(other) === value(item)
+    );
+    if (i === -1) {
+      changed.push(item);
+      continue;
+    }
+    pairs.push([item, unpaired[i]]);
+    unpaired.splice(i, 1);
+  }
+  for (const item of changed) {
+    const i = unpaired.findIndex((other) => key(other) === key(item));
+    if (i === -1) {
+      missing.push(item);
+      continue;
+    }
+    pairs.push([item, unpaired[i]]);
+    unpaired.splice(i, 1);
+  }
+  return { pairs, missing, extra: unpaired };
+}
+
+/**
+ * Answers the actions and queries of a replayed flow from its recording,
+ * and compares the replayed flow against it.
+ */
+export class FlowReplay {
+  private used: Set<RecordedAction> = new Set();
+  private unrecorded: Divergence[] = [];
+  public replayed?: FlowRecording;
+  constructor(public readonly recording: FlowRecording) {}
+  perform(concept: string, action: string, input: Mapping): Mapping {
+    const candidates = this.recording.actions.filter((recorded) =>
+      recorded.concept === concept && recorded.action === action &&
+      !this.used.has(recorded)
+    );
+    const recorded =
+      candidates.find((c) => canonical(c.input) === canonical(input)) ??
+        candidates[0];
+    if (recorded === undefined) {
+      throw new Error(`${concept}.${action} does not occur in the recording.`);
+    }
+    this.used.add(recorded);
+    if (recorded.error !== undefined) {
+      const error = new Error(recorded.error.message);
+      error.name = recorded.error.name;
+      throw error;
+    }
+    return snapshot(recorded.output ?? {});
+  }
+  query(concept: string, query: string, input: Mapping): unknown[] {
+    const recorded = this.recording.queries.find((recorded) =>
+      recorded.concept === concept && recorded.query === query &&
+      canonical(recorded.input) === canonical(input)
+    );
+    if (recorded === undefined) {
+      this.unrecorded.push({
+        kind: "query",
+        message: `${concept}.${query} ${
+          canonical(input)
+        } does not occur in the recording`,
+      });
+      return [];
+    }
+    return snapshot(recorded.output);
+  }
+  report(): ReplayReport {
+    if (this.replayed === undefined) {
+      throw new Error(`Replay of flow ${this.recording.flow} did not finish.`);
+    }
+    // The replay runs as a new flow, which stands for the recorded one
+    const compared = renameFlow(
+      this.replayed,
+      this.replayed.flow,
+      this.recording.flow,
+    );
+    const divergences: Divergence[] = [];
+    const from = (sync?: string) => sync ? ` (from ${sync})` : "";
+
+    const actions = pair(
+      this.recording.actions,
+      compared.actions,
+      (a) => `${a.concept}.${a.action}`,
+      (a) => canonical(a.input),
+    );
+    for (const [recorded, now] of actions.pairs) {
+      if (canonical(recorded.input) === canonical(now.input)) continue;
+      divergences.push({
+        kind: "changed",
+        message: `${recorded.concept}.${recorded.action}${from(now.sync)} got ${
+          canonical(now.input)
+        } instead of ${canonical(recorded.input)}`,
+        sync: now.sync,
+      });
+    }
+    for (const recorded of actions.missing) {
+      divergences.push({
+        kind: "missing",
+        message: `${recorded.concept}.${recorded.action} ${
+          canonical(recorded.input)
+        }${from(recorded.sync)} no longer occurs`,
+        sync: recorded.sync,
+      });
+    }
+    for (const now of actions.extra) {
+      divergences.push({
+        kind: "extra",
+        message: `${now.concept}.${now.action} ${canonical(now.input)}${
+          from(now.sync)
+        } did not occur in the recording`,
+        sync: now.sync,
+      });
+    }
+
+    const steps = pair(
+      this.recording.steps,
+      compared.steps,
+      (s) => `${s.after} ${s.sync} ${s.stage}`,
+      (s) => canonical(s.frames),
+    );
+    for (const [recorded, now] of steps.pairs) {
+      if (canonical(recorded.frames) === canonical(now.frames)) continue;
+      divergences.push({
+        kind: "frames",
+        message: `${now.sync} after ${now.after} has frames ${
+          canonical(now.frames)
+        } after \`${now.stage}\` instead of ${canonical(recorded.frames)}`,
+        sync: now.sync,
+      });
+    }
+    // A sync reaches `where` only if its `when` matched, so leftover steps
+    // of `where` follow from those of `when`
+    for (const recorded of steps.missing) {
+      if (recorded.stage !== "when") continue;
+      divergences.push({
+        kind: "frames",
+        message:
+          `${recorded.sync} no longer matches \`when\` after ${recorded.after}`,
+        sync: recorded.sync,
+      });
+    }
+    for (const now of steps.extra) {
+      if (now.stage !== "when") continue;
+      divergences.push({
+        kind: "frames",
+        message: `${now.sync} now matches \`when\` after ${now.after}`,
+        sync: now.sync,
+      });
+    }
+    return {
+      replayed: this.replayed,
+      divergences: [...divergences, ...this.unrecorded],
+    };
+  }
+}
@@ -0,0 +1,333 @@
+import type { Collection, Db } from "npm:mongodb";
+import type { ActionError, ActionRecord } from "./actions.ts";
+import type { InstrumentedAction } from "./types.ts";
+
+/**
+ * Serializable view of an action record, suitable for persistence and
+ * auditing. Concepts and actions are referred to by name.
+ */
+export interface ActionLogEntry {
+  id: string;
+  flow: string;
+  concept: string;
+  action: string;
+  input: Record<string, unknown>;
+  output?: Record<string, unknown>;
+  error?: ActionError;
+  timestamp: Date;
+}
+
+export interface ActionQuery {
+  flow?: string;
+  concept?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Bounds on how many action records are kept in memory. Whole flows are
+ * forgotten once they finish, earliest finished first, so that a flow is never
+ * partially forgotten while it can still be matched against. The bounds are
+ * enforced as each flow finishes. Without any bound, the records of a flow are
+ * forgotten as soon as it is evicted.
+ */
+export interface RetentionPolicy {
+  maxRecords?: number;
+  // Maximum time in milliseconds since a flow was last active
+  maxAge?: number;
+}
+
+/**
+ * Storage for action records. Records of live flows must stay available
+ * synchronously through `get` and `getByFlow` for matching, while `query`
+ * serves the (possibly persistent) action log.
+ */
+export interface ActionStore {
+  insert(record: ActionRecord): void | Promise<void>;
+  update(record: ActionRecord): void | Promise<void>;
+  get(id: string): ActionRecord | undefined;
+  getByFlow(flow: string): ActionRecord[] | undefined;
+  // deno-lint-ignore ban-types
+  getByFlowAndAction(flow: string, action: Function): ActionRecord[];
+  // Forget the records of a flow kept for matching, but not its log
+  evictFlow(flow: string): void;
+  query(query: ActionQuery): Promise<ActionLogEntry[]>;
+}
+
+/**
+ * Fields of action inputs and outputs holding credentials, which are
+ * redacted before they are persisted, at any depth and in any case.
+ */
+export const SENSITIVE_FIELDS = [
+  "password",
+  "newPassword",
+  "passwordHash",
+  "session",
+  "token",
+  "secret",
+  "authorization",
+];
+
+const REDACTED = "[redacted]";
+
+/**
+ * A copy of `value` whose fields named in `fields` are replaced, such as
+ * the `password` of a login, so that it can be saved.
+ */
+export function redact<T>(value: T, fields: string[] = SENSITIVE_FIELDS): T {
+  const sensitive = new Set(fields.map((field) => field.toLowerCase()));
+  const walk = (item: unknown): unknown => {
+    if (Array.isArray(item)) return item.map(walk);
+    if (typeof item !== "object" || item === null) return item;
+    // Dates, ObjectIds and other instances are kept as they are
+    const prototype = Object.getPrototypeOf(item);
+    if (prototype !== Object.prototype && prototype !== null) return item;
+    return Object.fromEntries(
+      Object.entries(item).map(([key, field]) => [
+        key,
+        sensitive.has(key.toLowerCase()) ? REDACTED : walk(field),
+      ]),
+    );
+  };
+  return walk(value) as T;
+}
+
+// The name of a concept without the `Concept` suffix of its class
+export function conceptName(concept: object) {
+  const constructorName = concept.constructor.name;
+  if (constructorName.endsWith("Concept")) {
+    return constructorName.slice(0, -"Concept".length);
+  }
+  return constructorName;
+}
+
+/**
+ * Concept and action names of a record, e.g. `Requesting` and `request`.
+ */
+export function actionNames(record: Pick<ActionRecord, "action" | "concept">) {
+  const boundAction = (record.action as InstrumentedAction).action;
+  const concept = conceptName(record.concept);
+  let action = boundAction ? boundAction.name : record.action.name;
+  if (action.startsWith("bound ")) action = action.slice("bound ".length);
+  return { concept, action };
+}
+
+export function toLogEntry(record: ActionRecord): ActionLogEntry {
+  const { concept, action } = actionNames(record);
+  return {
+    id: record.id as string,
+    flow: record.flow,
+    concept,
+    action,
+    input: record.input,
+    ...(record.output ? { output: record.output } : {}),
+    ...(record.error ? { error: record.error } : {}),
+    timestamp: record.timestamp ?? new Date(),
+  };
+}
+
+function matchesQuery(entry: ActionLogEntry, query: ActionQuery) {
+  if (query.flow !== undefined && entry.flow !== query.flow) return false;
+  if (query.concept !== undefined && entry.concept !== query.concept) {
+    return false;
+  }
+  if (query.action !== undefined && entry.action !== query.action) {
+    return false;
+  }
+  if (query.from !== undefined && entry.timestamp < query.from) return false;
+  if (query.to !== undefined && entry.timestamp > query.to) return false;
+  return true;
+}
+
+export class InMemoryActionStore implements ActionStore {
+  protected records: Map<string, ActionRecord> = new Map();
+  protected flows: Map<string, ActionRecord[]> = new Map();
+  // Flows still open for matching, with their records indexed by action
+  // deno-lint-ignore ban-types
+  protected live: Map<string, Map<Function, ActionRecord[]>> = new Map();
+  // Finished flows that are retained, with the times they finished, earliest
+  // first
+  protected finished: Map<string, number> = new Map();
+  constructor(public retention: RetentionPolicy = {}) {}
+  insert(record: ActionRecord) {
+    const id = record.id as string;
+    this.records.set(id, record);
+    const partition = this.flows.get(record.flow);
+    if (partition === undefined) this.flows.set(record.flow, [record]);
+    else partition.push(record);
+    let byAction = this.live.get(record.flow);
+    if (byAction === undefined) {
+      byAction = new Map();
+      this.live.set(record.flow, byAction);
+      this.finished.delete(record.flow);
+    }
+    const matching = byAction.get(record.action);
+    if (matching === undefined) byAction.set(record.action, [record]);
+    else matching.push(record);
+  }
+  update(record: ActionRecord) {
+    const id = record.id as string;
+    if (!this.records.has(id)) {
+      throw new Error(`Action with id ${id} not found.`);
+    }
+  }
+  get(id: string) {
+    return this.records.get(id);
+  }
+  getByFlow(flow: string) {
+    if (!this.live.has(flow)) return undefined;
+    return this.flows.get(flow);
+  }
+  // deno-lint-ignore ban-types
+  getByFlowAndAction(flow: string, action: Function) {
+    return this.live.get(flow)?.get(action) || [];
+  }
+  query(query: ActionQuery) {
+    const entries = [...this.records.values()]
+      .map(toLogEntry)
+      .filter((entry) => matchesQuery(entry, query))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const limited = query.limit === undefined
+      ? entries
+      : entries.slice(0, query.limit);
+    return Promise.resolve(limited);
+  }
+  evictFlow(flow: string) {
+    const { maxRecords, maxAge } = this.retention;
+    if (maxRecords === undefined && maxAge === undefined) {
+      this.forgetFlow(flow);
+    } else {
+      this.live.delete(flow);
+      this.enforceRetention();
+      this.finished.set(flow, Date.now());
+    }
+  }
+  protected forgetFlow(flow: string) {
+    const partition = this.flows.get(flow);
+    if (partition === undefined) return;
+    for (const record of partition) {
+      this.records.delete(record.id as string);
+    }
+    this.flows.delete(flow);
+    this.live.delete(flow);
+    this.finished.delete(flow);
+  }
+  get size() {
+    return this.records.size;
+  }
+  // Forgets finished flows, earliest first, while over capacity or expired.
+  // Flows still running are never forgotten, as their actions are yet to be
+  // matched and completed
+  protected enforceRetention() {
+    const { maxRecords, maxAge } = this.retention;
+    const cutoff = maxAge === undefined ? undefined : Date.now() - maxAge;
+    for (const [flow, finishedAt] of this.finished) {
+      const overCapacity = maxRecords !== undefined &&
+        this.records.size > maxRecords;
+      const expired = cutoff !== undefined && finishedAt < cutoff;
+      if (!overCapacity && !expired) break;
+      this.forgetFlow(flow);
+    }
+  }
+}
+
+type ActionLogDoc = Omit<ActionLogEntry, "id"> & { _id: string };
+
+export interface MongoActionStoreOptions {
+  collection?: string;
+  // Retention of records held in memory for matching
+  retention?: RetentionPolicy;
+  // Retention of the persisted log, enforced with a TTL index
+  expireAfterSeconds?: number;
+  // Fields redacted from inputs and outputs before they are persisted,
+  // default SENSITIVE_FIELDS
+  redact?: string[];
+}
+
+/**
+ * Keeps live flows in memory for matching and writes every record through
+ * to MongoDB, so that provenance survives restarts and can be queried.
+ * Credentials are redacted from the persisted records.
+ */
+export class MongoActionStore extends InMemoryActionStore {
+  private readonly log: Collection<ActionLogDoc>;
+  private readonly redacted: string[];
+  // Writes of each action still in progress, so that its output is written
+  // after the action itself
+  private readonly writes: Map<string, Promise<void>> = new Map();
+  public readonly ready: Promise<void>;
+  constructor(db: Db, options: MongoActionStoreOptions = {}) {
+    super(options.retention);
+    this.log = db.collection(options.collection ?? "Action.log");
+    this.redacted = options.redact ?? SENSITIVE_FIELDS;
+    this.ready = this.createIndexes(options.expireAfterSeconds).catch((e) => {
+      console.error("Failed to create action log indexes:", e);
+    });
+  }
+  private async createIndexes(expireAfterSeconds?: number) {
+    await this.log.createIndex({ flow: 1, timestamp: 1 });
+    await this.log.createIndex({ concept: 1, action: 1, timestamp: 1 });
+    if (expireAfterSeconds === undefined) {
+      await this.log.createIndex({ timestamp: 1 });
+    } else {
+      await this.log.createIndex({ timestamp: 1 }, { expireAfterSeconds });
+    }
+  }
+  // Actions run without waiting for their records to be written
+  override insert(record: ActionRecord) {
+    super.insert(record);
+    const { id, ...entry } = toLogEntry(record);
+    const doc = {
+      _id: id,
+      ...entry,
+      input: redact(entry.input, this.redacted),
+    };
+    this.write(id, `Failed to persist action ${id}:`, async () => {
+      await this.log.insertOne(doc);
+    });
+  }
+  override update(record: ActionRecord) {
+    super.update(record);
+    const id = record.id as string;
+    const result = record.error === undefined
+      ? { output: redact(record.output, this.redacted) }
+      : { error: record.error };
+    this.write(id, `Failed to persist output of action ${id}:`, async () => {
+      await this.log.updateOne({ _id: id }, { $set: result });
+    });
+  }
+  private write(id: string, failure: string, operation: () => Promise<void>) {
+    const written: Promise<void> = (this.writes.get(id) ?? Promise.resolve())
+      .then(operation)
+      .catch((e) => console.error(failure, e))
+      .finally(() => {
+        if (this.writes.get(id) === written) this.writes.delete(id);
+      });
+    this.writes.set(id, written);
+  }
+  /**
+   * Waits for the records being written to MongoDB.
+   */
+  async flush() {
+    await Promise.all(this.writes.values());
+  }
+  override async query(query: ActionQuery) {
+    await this.flush();
+    const filter: Record<string, unknown> = {};
+    if (query.flow !== undefined) filter.flow = query.flow;
+    if (query.concept !== undefined) filter.concept = query.concept;
+    if (query.action !== undefined) filter.action = query.action;
+    if (query.from !== undefined || query.to !== undefined) {
+      filter.timestamp = {
+        ...(query.from !== undefined ? { $gte: query.from } : {}),
+        ...(query.to !== undefined ? { $lte: query.to } : {}),
+      };
+    }
+    let cursor = this.log.find(filter).sort({ timestamp: 1 });
+    if (query.limit !== undefined) cursor = cursor.limit(query.limit);
+    const docs = await cursor.toArray();
+    return docs.map(({ _id, ...entry }) => ({ ...entry, id: _id }));
+  }
+}
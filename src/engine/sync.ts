@@ -5,16 +5,47 @@
   See https://creativecommons.org/licenses/by-nc-sa/4.0/
 */
 import { $vars } from "./vars.ts";
-import { inspect, uuid } from "./util.ts";
-import { ActionConcept, ActionRecord } from "./actions.ts";
+import { inspect, runConcurrently, uuid } from "./util.ts";
+import { ActionConcept, ActionRecord, toActionError } from "./actions.ts";
 import { Frames } from "./frames.ts";
+import type { BatchQuery } from "./frames.ts";
+import { actionNames, conceptName } from "./store.ts";
+import {
+  Absent,
+  AnyAction,
+  Not,
+  Optional,
+  Schedule,
+  scheduleOf,
+  Thrown,
+} from "./patterns.ts";
+import { currentContext, engineContext } from "./context.ts";
+import { Tracer } from "./tracing.ts";
+import { EngineMetrics } from "./metrics.ts";
+import { FeatureFlags, SyncToggles } from "./flags.ts";
+import type { SpanAttributes } from "./tracing.ts";
+import {
+  FlowRecorder,
+  FlowRecording,
+  FlowReplay,
+  ReplayReport,
+} from "./replay.ts";
+import {
+  recordTransactionError,
+  runInTransaction,
+  SessionProvider,
+} from "./transactions.ts";
 import {
   ActionList,
   ActionPattern,
+  FlowListener,
   Frame,
   InstrumentedAction,
+  Mapping,
+  NearMiss,
   SyncFunctionMap,
   Synchronization,
+  TypedActionList,
 } from "./types.ts";
 
 // Unique symbols to associate with frames
@@ -22,22 +53,25 @@ const flow = Symbol("flow");
 const synced = Symbol("synced");
 const actionId = Symbol("actionId");
 
-// Helper function to format action patterns
-export function actions(
-  ...actions: ActionList[]
+// Helper function to format action patterns, with fields checked against
+// the signature of each action
+export function actions<A extends (InstrumentedAction | AnyAction)[]>(
+  ...actions: { [K in keyof A]: TypedActionList<A[K]> }
 ): ActionPattern[] {
-  return actions.map(([action, input, output]) => {
+  return (actions as ActionList[]).map(([action, input, output]) => {
+    const outputs = output instanceof Thrown
+      ? { thrown: output.error }
+      : output
+      ? { output }
+      : {};
+    if (action instanceof AnyAction) {
+      return { any: action, input, flow, ...outputs };
+    }
     const concept = action.concept;
     if (concept === undefined) {
       throw new Error(`Action ${action.name} is not instrumented.`);
     }
-    return {
-      concept,
-      action,
-      input,
-      flow,
-      ...(output ? { output } : {}),
-    };
+    return { concept, action, input, flow, ...outputs };
   });
 }
 
@@ -49,24 +83,252 @@ export enum Logging {
   VERBOSE,
 }
 
+interface FlowState {
+  pending: number;
+  terminal?: ActionRecord;
+  nearMisses: Map<string, NearMiss>;
+  // Syncs that dispatched actions declared with `once`, by action and key
+  claims: Map<string, string>;
+  recorder?: FlowRecorder;
+  // Set while replaying the flow from a recording
+  replay?: FlowReplay;
+  // The flow that scheduled the action this flow fired
+  origin?: string;
+  // What the root action threw, if it failed
+  error?: unknown;
+}
+
 export class SyncConcept {
   public syncs: Record<string, Synchronization> = {};
   public syncsByAction: Map<InstrumentedAction, Set<Synchronization>> =
     new Map();
+  // Syncs with `anyAction()` patterns, which are checked against every action
+  public anyActionSyncs: Set<Synchronization> = new Set();
+  // Starts the sessions of transactional syncs, such as a MongoClient.
+  // Without one, as for a standalone MongoDB, they run without transactions
+  public sessions?: SessionProvider;
+  // The order in which each sync was first registered, kept when replaced
+  private registration: Map<string, number> = new Map();
+  // Transactional syncs already warned about running without transactions
+  private untransacted: Set<string> = new Set();
+  // Instrumented concepts mapped to the concepts they wrap
+  private targets: WeakMap<object, object> = new WeakMap();
   public Action;
   public logging = Logging.TRACE;
   // deno-lint-ignore ban-types
   public boundActions: Map<Function, InstrumentedAction> = new Map();
+  // Forget the records of a flow for matching once it has finished
+  public evictFinishedFlows = true;
+  public terminalActions: Set<InstrumentedAction> = new Set();
+  // Actions that syncs may dispatch once per flow and value of an input
+  public onceActions: Map<InstrumentedAction, string> = new Map();
+  // Actions that schedule the actions of `later` thens, and fire them
+  private timers?: { schedule: InstrumentedAction; fire: InstrumentedAction };
+  // Traces each flow, once given an exporter
+  public tracer = new Tracer();
+  public metrics = new EngineMetrics();
+  public toggles = new SyncToggles();
+  public flags = new FeatureFlags();
+  private flows: Map<string, FlowState> = new Map();
+  private flowListeners: FlowListener[] = [];
+  // Instrumented concepts by name, to look up recorded actions
+  private concepts: Map<string, object> = new Map();
+  private recording?: {
+    filter: (record: ActionRecord) => boolean;
+    save: (recording: FlowRecording) => void | Promise<void>;
+  };
+  // State to start the next flow with, such as that of a replay
+  private nextFlow?: Partial<FlowState>;
   constructor(actionConcept: ActionConcept = new ActionConcept()) {
     this.Action = actionConcept;
   }
+  /**
+   * Declares actions, such as `Requesting.respond`, that conclude a flow.
+   */
+  finishOn(...actions: InstrumentedAction[]) {
+    for (const action of actions) {
+      if (action.concept === undefined) {
+        throw new Error(`Action ${action.name} is not instrumented.`);
+      }
+      this.terminalActions.add(action);
+    }
+  }
+  /**
+   * Declares that syncs may dispatch `action` only once per flow for each
+   * value of its input `key`, such as `Requesting.respond` per `request`.
+   * The first sync to dispatch it wins; those after it are skipped with a
+   * warning, and counted as conflicts.
+   */
+  once(action: InstrumentedAction, key: string) {
+    if (action.concept === undefined) {
+      throw new Error(`Action ${action.name} is not instrumented.`);
+    }
+    this.onceActions.set(action, key);
+  }
+  /**
+   * Sets the actions that schedule and fire the actions of `later` thens,
+   * such as `Timer.schedule` and `Timer.fire`. `schedule` receives the name
+   * and input of the action, its schedule and the `origin` flow. Once `fire`
+   * returns an `action` and `input`, that action is invoked in its flow.
+   */
+  scheduleWith(schedule: InstrumentedAction, fire: InstrumentedAction) {
+    for (const action of [schedule, fire]) {
+      if (action.concept === undefined) {
+        throw new Error(`Action ${action.name} is not instrumented.`);
+      }
+    }
+    this.timers = { schedule, fire };
+  }
+  onFlowFinished(listener: FlowListener) {
+    this.flowListeners.push(listener);
+    return () => {
+      this.flowListeners = this.flowListeners.filter((l) => l !== listener);
+    };
+  }
+  /**
+   * Records the flows started by actions matching `filter`, such as
+   * `Requesting.request`, passing each to `save` once it has finished.
+   */
+  recordFlows(
+    filter: (record: ActionRecord) => boolean,
+    save: (recording: FlowRecording) => void | Promise<void>,
+  ) {
+    this.recording = { filter, save };
+  }
+  /**
+   * Re-runs a recorded flow against the registered syncs, answering every
+   * action and query from the recording, and reports where the flow now
+   * diverges from it.
+   */
+  async replay(recording: FlowRecording): Promise<ReplayReport> {
+    const { concept, action, input } = recording.root;
+    const root = Reflect.get(this.concepts.get(concept) ?? {}, action);
+    if (typeof root !== "function") {
+      throw new Error(`Action ${concept}.${action} is not instrumented.`);
+    }
+    const replay = new FlowReplay(recording);
+    this.nextFlow = { recorder: new FlowRecorder(), replay };
+    try {
+      await root({ ...input });
+    } catch {
+      // The error was recorded as part of the replayed flow
+    } finally {
+      this.nextFlow = undefined;
+    }
+    return replay.report();
+  }
+  private beginAction(record: ActionRecord) {
+    let state = this.flows.get(record.flow);
+    if (state === undefined) {
+      state = {
+        pending: 0,
+        nearMisses: new Map(),
+        claims: new Map(),
+        ...this.nextFlow,
+      };
+      this.nextFlow = undefined;
+      if (state.recorder === undefined && this.recording?.filter(record)) {
+        state.recorder = new FlowRecorder();
+      }
+      this.flows.set(record.flow, state);
+    }
+    state.pending++;
+  }
+  private failFlow(flow: string, error: unknown) {
+    const state = this.flows.get(flow);
+    if (state !== undefined) state.error = error;
+  }
+  private async endAction(record: ActionRecord) {
+    const state = this.flows.get(record.flow);
+    if (state === undefined) return;
+    if (
+      state.terminal === undefined &&
+      this.terminalActions.has(record.action as InstrumentedAction)
+    ) {
+      state.terminal = record;
+    }
+    state.pending--;
+    if (state.pending > 0) return;
+    this.flows.delete(record.flow);
+    await this.finishFlow(record.flow, state);
+  }
+  /**
+   * Remembers the furthest a sync got in a flow without firing, so that a
+   * flow that fails to conclude can name the syncs that nearly applied.
+   */
+  private noteNearMiss(flow: string, nearMiss: NearMiss) {
+    const state = this.flows.get(flow);
+    if (state === undefined) return;
+    const previous = state.nearMisses.get(nearMiss.sync);
+    const further = previous === undefined ||
+      (nearMiss.stage === "where" && previous.stage === "when") ||
+      (nearMiss.stage === previous.stage &&
+        nearMiss.matched > previous.matched);
+    if (further) state.nearMisses.set(nearMiss.sync, nearMiss);
+  }
+  private async finishFlow(flow: string, state: FlowState) {
+    const actions = [...(this.Action._getByFlow(flow) ?? [])];
+    if (this.evictFinishedFlows) {
+      this.Action.evict({ flow });
+    }
+    const recording = state.recorder?.finish(flow, actions);
+    if (state.replay !== undefined) {
+      // A replayed flow did not really happen, so listeners are not told
+      state.replay.replayed = recording;
+      return;
+    }
+    const event = {
+      flow,
+      reason: state.terminal ? "terminal" as const : "quiescent" as const,
+      terminal: state.terminal,
+      actions,
+      nearMisses: [...state.nearMisses.values()],
+      ...(state.origin !== undefined ? { origin: state.origin } : {}),
+      ...(state.error !== undefined ? { error: state.error } : {}),
+    };
+    for (const listener of this.flowListeners) {
+      await listener(event);
+    }
+    if (recording !== undefined && this.recording !== undefined) {
+      try {
+        await this.recording.save(recording);
+      } catch (e) {
+        console.error(`Failed to save the recording of flow ${flow}:`, e);
+      }
+    }
+  }
+  /**
+   * Registers syncs by name, replacing any already registered by that name.
+   */
   register(syncs: SyncFunctionMap) {
     for (const [name, syncFunction] of Object.entries(syncs)) {
       const syncDeclaration = syncFunction($vars);
       const sync = { sync: name, ...syncDeclaration };
+      this.unregister(name);
       this.syncs[name] = sync;
+      if (!this.registration.has(name)) {
+        this.registration.set(name, this.registration.size);
+      }
+      // Syncs that never match still show up in the metrics
+      this.metrics.sync(name);
+      for (const then of sync.then) {
+        if (then.any !== undefined) {
+          throw new Error(`Sync ${name} uses anyAction() in \`then\`.`);
+        }
+      }
+      const { execution } = sync;
+      if (
+        typeof execution === "object" &&
+        !(Number.isInteger(execution.concurrency) && execution.concurrency > 0)
+      ) {
+        throw new Error(`Sync ${name} must have a positive concurrency.`);
+      }
       // Index each sync by all actions in the `when`
       for (const { action } of sync.when) {
+        if (action === undefined) {
+          this.anyActionSyncs.add(sync);
+          continue;
+        }
         const mappedSyncs = this.syncsByAction.get(action);
         if (mappedSyncs === undefined) {
           this.syncsByAction.set(action, new Set([sync]));
@@ -76,6 +338,59 @@ export class SyncConcept {
       }
     }
   }
+  /**
+   * Removes syncs, which no longer match actions from then on. Actions they
+   * already dispatched complete as usual.
+   */
+  unregister(...names: string[]) {
+    for (const name of names) {
+      const sync = this.syncs[name];
+      if (sync === undefined) continue;
+      delete this.syncs[name];
+      this.anyActionSyncs.delete(sync);
+      for (const { action } of sync.when) {
+        if (action === undefined) continue;
+        const mappedSyncs = this.syncsByAction.get(action);
+        mappedSyncs?.delete(sync);
+        if (mappedSyncs?.size === 0) this.syncsByAction.delete(action);
+      }
+    }
+  }
+  /**
+   * Enables syncs by name or by group, such as `planner.*`.
+   */
+  enable(...patterns: string[]) {
+    for (const pattern of patterns) this.toggles.set(pattern, true);
+  }
+  /**
+   * Disables syncs by name or by group, such as `planner.*`. Disabled syncs
+   * stay registered, but no longer match actions until enabled again.
+   */
+  disable(...patterns: string[]) {
+    for (const pattern of patterns) this.toggles.set(pattern, false);
+  }
+  isEnabled(sync: string) {
+    return this.toggles.isEnabled(sync);
+  }
+  /**
+   * Swaps the implementation of an instrumented concept for that of
+   * `replacement`, a new instance of its changed class, while keeping the
+   * state of the current instance. Syncs need to be registered again to
+   * match the new actions.
+   */
+  replaceConcept(instrumented: object, replacement: object) {
+    const concept = this.targets.get(instrumented);
+    if (concept === undefined) {
+      throw new Error(`Concept ${instrumented} is not instrumented.`);
+    }
+    Object.setPrototypeOf(concept, Object.getPrototypeOf(replacement));
+    // Only fields the new class introduced are taken from the replacement
+    for (const key of Reflect.ownKeys(replacement)) {
+      if (!Object.hasOwn(concept, key)) {
+        Reflect.set(concept, key, Reflect.get(replacement, key));
+      }
+    }
+  }
   async synchronize(record: ActionRecord) {
     if (this.logging === Logging.VERBOSE) {
       const { concept, ...rec } = record;
@@ -84,58 +399,222 @@ export class SyncConcept {
     }
     if (this.logging === Logging.TRACE) {
       const boundAction = (record.action as InstrumentedAction).action;
-      const constructorName = record.concept.constructor.name;
-      let conceptName = constructorName;
-      if (constructorName.endsWith("Concept")) {
-        conceptName = constructorName.slice(0, -"Concept".length);
-      }
-      const boundName = boundAction
-        ? boundAction.name.slice("bound ".length)
-        : "UNDEFINED";
+      const { concept: conceptName, action } = actionNames(record);
+      const boundName = boundAction ? action : "UNDEFINED";
+      const result = record.error
+        ? `THREW ${record.error.name}: ${record.error.message}`
+        : inspect(record.output);
       console.log(
-        `\n${conceptName}.${boundName} ${inspect(record.input)} => ${
-          inspect(record.output)
-        }\n`,
+        `\n${conceptName}.${boundName} ${inspect(record.input)} => ${result}\n`,
+      );
+    }
+    const candidates = new Set(this.syncsByAction.get(record.action));
+    for (const sync of this.anyActionSyncs) {
+      const matches = sync.when.some((when) =>
+        when.any !== undefined &&
+        this.matchAnyAction(record, when.any, {}) !== undefined
       );
+      if (matches) candidates.add(sync);
     }
-    const syncs = await this.syncsByAction.get(record.action);
-    if (syncs) {
+    // Higher priorities first, and otherwise in the order each sync was
+    // first registered, whether it matches the action or `anyAction()`
+    const syncs = [...candidates].sort((a, b) =>
+      (b.priority ?? 0) - (a.priority ?? 0) ||
+      this.registration.get(a.sync)! - this.registration.get(b.sync)!
+    );
+    const recorder = this.flows.get(record.flow)?.recorder;
+    const names = actionNames(record);
+    const after = `${names.concept}.${names.action}`;
+    if (syncs.length > 0) {
       for (const sync of syncs) {
-        let [frames, actionSymbols] = await this.matchWhen(
+        if (!this.toggles.isEnabled(sync.sync)) continue;
+        const metrics = this.metrics.sync(sync.sync);
+        metrics.considered++;
+        let [frames, actionSymbols, matched] = this.matchWhen(
           record,
           sync,
         );
+        if (frames.length === 0 && matched > 0) {
+          this.noteNearMiss(record.flow, {
+            sync: sync.sync,
+            stage: "when",
+            matched,
+            of: sync.when.length,
+          });
+        }
+        // Variables internal to the engine, which differ between runs
+        const hidden = new Set([flow, ...actionSymbols]);
         if (frames.length > 0) {
           this.logFrames(
             `Matched \`sync\`: ${sync.sync} with \`when\`:`,
             frames,
           );
-          if (sync.where !== undefined) {
-            const maybeFrames = sync.where(frames);
-            frames = maybeFrames instanceof Promise
-              ? await maybeFrames
-              : maybeFrames;
+          recorder?.step(sync.sync, "when", after, frames, hidden);
+          metrics.matched++;
+          metrics.whenFrames += frames.length;
+          const where = sync.where;
+          if (where !== undefined) {
+            const matchedFrames = frames;
+            const start = performance.now();
+            frames = await this.tracer.span(
+              `where ${sync.sync}`,
+              "where",
+              record.flow,
+              { sync: sync.sync, "frames.in": frames.length },
+              async (span) => {
+                const result = await engineContext.run(
+                  { ...currentContext(), flow: record.flow },
+                  () => where(matchedFrames),
+                );
+                if (span) span.attributes["frames.out"] = result.length;
+                return result;
+              },
+            );
+            metrics.whereSeconds.observe((performance.now() - start) / 1000);
+            metrics.whereFrames += frames.length;
             this.logFrames(`After processing \`where\`:`, frames);
+            recorder?.step(sync.sync, "where", after, frames, hidden);
+            if (frames.length === 0) {
+              this.noteNearMiss(record.flow, {
+                sync: sync.sync,
+                stage: "where",
+                matched,
+                of: sync.when.length,
+              });
+            }
+          }
+          const flag = sync.flag;
+          if (flag !== undefined) {
+            frames = frames.filter((frame) => {
+              const user = frame[flag.user];
+              return this.flags.isEnabled(
+                flag.name,
+                user === undefined ? undefined : String(user),
+              );
+            });
+            this.logFrames(`After flag ${flag.name}:`, frames);
           }
           await this.addThen(frames, sync, actionSymbols);
         }
       }
     }
+    if (record.action === this.timers?.fire && record.output !== undefined) {
+      await this.fireScheduled(record);
+    }
+  }
+  /**
+   * Invokes the action a timer fired for in the flow of `fire`, which is
+   * linked to the flow that scheduled it.
+   */
+  private async fireScheduled(record: ActionRecord) {
+    const { action: name, input, origin } = record.output as {
+      action?: unknown;
+      input?: Mapping;
+      origin?: unknown;
+    };
+    // Such as an error instead
+    if (typeof name !== "string") return;
+    const state = this.flows.get(record.flow);
+    if (state !== undefined && typeof origin === "string") {
+      state.origin = origin;
+    }
+    const dot = name.lastIndexOf(".");
+    const concept = this.concepts.get(name.slice(0, dot));
+    const action = concept && Reflect.get(concept, name.slice(dot + 1));
+    if (typeof action !== "function") {
+      throw new Error(`Scheduled action ${name} does not exist.`);
+    }
+    await action({ ...input, [flow]: record.flow });
+  }
+  // The call of the action set by `scheduleWith` that schedules `action`
+  private scheduling(
+    sync: string,
+    action: InstrumentedAction,
+    schedule: Schedule,
+    args: ActionArguments,
+    frame: Frame,
+  ): [InstrumentedAction, ActionArguments] {
+    if (this.timers === undefined) {
+      throw new Error(
+        `Sync ${sync} schedules an action, but no timer is set with \`scheduleWith\`.`,
+      );
+    }
+    const { concept, action: name } = actionNames({
+      action,
+      concept: action.concept as object,
+    });
+    const { [flow]: flowToken, [actionId]: id, ...input } = args;
+    const timing = Object.entries(schedule)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => {
+        if (typeof value !== "symbol") return [key, value];
+        const bound = frame[value];
+        if (bound === undefined) {
+          throw new Error(
+            `Missing binding: ${String(value)} in frame: ${frame}`,
+          );
+        }
+        return [key, bound];
+      });
+    return [this.timers.schedule, {
+      action: `${concept}.${name}`,
+      input,
+      ...Object.fromEntries(timing),
+      origin: flowToken,
+      [flow]: flowToken,
+      [actionId]: id,
+    }];
+  }
+  /**
+   * Claims an action declared with `once` for a sync, unless another sync,
+   * or another frame of the same sync, has already dispatched it.
+   */
+  private claim(
+    sync: string,
+    action: InstrumentedAction,
+    args: ActionArguments,
+  ) {
+    const key = this.onceActions.get(action);
+    if (key === undefined) return true;
+    const state = this.flows.get(args[flow] as string);
+    if (state === undefined) return true;
+    const { concept, action: name } = actionNames({
+      action,
+      concept: action.concept as object,
+    });
+    const value = args[key];
+    const claim = `${concept}.${name} ${inspect(value)}`;
+    const winner = state.claims.get(claim);
+    if (winner === undefined) {
+      state.claims.set(claim, sync);
+      return true;
+    }
+    this.metrics.sync(sync).conflicts++;
+    if (this.logging !== Logging.OFF) {
+      console.warn(
+        `[Engine] ${sync} tried ${concept}.${name} for ${key} ${
+          inspect(value)
+        }, which ${winner} already did; skipped.`,
+      );
+    }
+    return false;
   }
   logFrames(message: string, frames: Frames) {
     if (this.logging === Logging.VERBOSE && frames.length > 0) {
       console.log(message, frames);
     }
   }
-  async matchWhen(
+  matchWhen(
     record: ActionRecord,
     sync: Synchronization,
-  ): Promise<[Frames<Frame>, symbol[]]> {
+  ): [Frames<Frame>, symbol[], number] {
     let frames = new Frames();
     const whens = sync.when;
-    const flowActions = await this.Action._getByFlow(record.flow);
-    if (flowActions === undefined) return [frames, []];
+    const flowActions = this.Action._getByFlow(record.flow);
+    if (flowActions === undefined) return [frames, [], 0];
     let i = 0;
+    // Number of leading `when` patterns that matched, for diagnostics
+    let matched = 0;
     const actionSymbols: symbol[] = [];
     frames.push({ [flow]: record.flow });
     for (const when of whens) {
@@ -144,8 +623,12 @@ export class SyncConcept {
       i++;
       // Find all action record matches for single when
       const newFrames = new Frames();
+      // Only records of the same action can match
+      const candidates = when.action === undefined
+        ? flowActions
+        : this.Action._getByFlowAndAction(record.flow, when.action);
       for (const frame of frames) {
-        for (const record of flowActions) {
+        for (const record of candidates) {
           // Skip records that have been synced by current sync
           if (record.synced && record.synced.has(sync.sync)) {
             continue;
@@ -161,16 +644,22 @@ export class SyncConcept {
         }
       }
       frames = newFrames;
+      if (frames.length > 0) matched++;
     }
-    return [frames, actionSymbols];
+    return [frames, actionSymbols, matched];
   }
   async addThen(
     frames: Frames,
     sync: Synchronization,
     actionSymbols: symbol[],
   ) {
-    const thens: [InstrumentedAction, ActionArguments][] = [];
+    // Each frame fires the sync once, and a firing whose action throws, or
+    // returns an error within a transaction, dispatches none of its later
+    // actions
+    const thens: [InstrumentedAction, ActionArguments, { failed: boolean }][] =
+      [];
     for (const frame of frames) {
+      const firing = { failed: false };
       // Collect when actions for marking after executing thens
       const whenActions: ActionRecord[] = [];
       for (const actionSymbol of actionSymbols) {
@@ -188,7 +677,18 @@ export class SyncConcept {
         }
       }
       for (const then of sync.then) {
-        const matched = this.matchThen(then, frame);
+        let thenAction = then.action as InstrumentedAction;
+        let matched = this.matchThen(then, frame);
+        const schedule = scheduleOf(thenAction);
+        if (schedule !== undefined) {
+          [thenAction, matched] = this.scheduling(
+            sync.sync,
+            thenAction,
+            schedule,
+            matched,
+            frame,
+          );
+        }
         const id = matched[actionId];
 
         if (id === undefined || typeof id !== "string") {
@@ -199,16 +699,78 @@ export class SyncConcept {
         for (const whenAction of whenActions) {
           whenAction.synced?.set(sync.sync, id);
         }
-        thens.push([then.action, matched]);
+        thens.push([thenAction, matched, firing]);
       }
     }
-    // Await all actions
-    for (const [thenAction, thenRecord] of thens) {
+    // Await all actions, which were already recorded as synced above so
+    // that bookkeeping does not depend on the order they complete in
+    const metrics = this.metrics.sync(sync.sync);
+    let fired = false;
+    const run = async (
+      [thenAction, thenRecord, firing]: (typeof thens)[number],
+    ) => {
+      if (firing.failed) {
+        metrics.skipped++;
+        return;
+      }
       if (this.logging === Logging.VERBOSE) {
         console.log(`${sync.sync}: THEN ${thenAction}`, thenRecord);
       }
+      if (!this.claim(sync.sync, thenAction, thenRecord)) return;
+      // Only actions actually dispatched count, not those claimed by others
+      if (!fired) {
+        fired = true;
+        metrics.fired++;
+      }
+      metrics.thenActions++;
       await thenAction(thenRecord);
-    }
+      const record = this.Action._getById(thenRecord[actionId] as string);
+      if (record?.error !== undefined) firing.failed = true;
+      // The transaction already rolls back, so later actions would be undone
+      const { error } = (record?.output ?? {}) as { error?: unknown };
+      if (error !== undefined && currentContext().transaction !== undefined) {
+        firing.failed = true;
+      }
+    };
+    const execute = async () => {
+      // Operations of a transaction cannot run concurrently
+      const execution = currentContext().transaction === undefined
+        ? sync.execution ?? "sequential"
+        : "sequential";
+      if (execution === "sequential") {
+        for (const then of thens) {
+          await run(then);
+        }
+      } else {
+        const limit = execution === "concurrent"
+          ? thens.length
+          : execution.concurrency;
+        await runConcurrently(thens, limit, run);
+      }
+    };
+    const dispatch = async () => {
+      if (!sync.transactional) return await execute();
+      if (this.sessions === undefined) {
+        if (
+          !this.untransacted.has(sync.sync) && this.logging !== Logging.OFF
+        ) {
+          this.untransacted.add(sync.sync);
+          console.warn(
+            `Sync ${sync.sync} is transactional, but runs without transactions, as no session provider is set.`,
+          );
+        }
+        return await execute();
+      }
+      await runInTransaction(this.sessions, sync.sync, execute);
+    };
+    if (thens.length === 0) return await dispatch();
+    await this.tracer.span(
+      `then ${sync.sync}`,
+      "then",
+      frames[0][flow] as string,
+      { sync: sync.sync, frames: frames.length, actions: thens.length },
+      dispatch,
+    );
   }
   matchThen(then: ActionPattern, frame: Frame) {
     const bound = Object.entries(then.input).map(([key, value]) => {
@@ -237,32 +799,95 @@ export class SyncConcept {
     frame: Frame,
     actionSymbol: symbol,
   ) {
-    let newFrame = { ...frame };
-    // Match concept and action -> TODO: Support variable concept/action
-    if (
+    let names: Frame = {};
+    if (when.any !== undefined) {
+      const matched = this.matchAnyAction(record, when.any, frame);
+      if (matched === undefined) return;
+      names = matched;
+    } else if (
       record.concept !== when.concept ||
       record.action !== when.action
     ) return;
-    for (const [key, value] of Object.entries(when.input)) {
-      const recordValue = record.input[key];
-      if (recordValue === undefined) return;
-      if (typeof value === "symbol") {
-        const bound = frame[value];
-        if (bound === undefined) {
-          newFrame = { ...newFrame, [value]: recordValue };
-        } else {
-          if (bound !== recordValue) return;
-        }
-      } else {
-        if (recordValue !== value) return;
+    let newFrame = this.matchMapping(when.input, record.input, frame, {
+      ...frame,
+      ...names,
+    });
+    if (newFrame === undefined) return;
+    if (when.thrown !== undefined) {
+      if (record.error === undefined) return;
+      newFrame = this.matchMapping(when.thrown, record.error, frame, newFrame);
+    } else {
+      if (when.output === undefined) {
+        throw new Error(`When pattern: ${when} is missing output pattern.`);
       }
+      // Actions that threw have no output to match
+      if (record.output === undefined) return;
+      newFrame = this.matchMapping(when.output, record.output, frame, newFrame);
     }
-    if (when.output === undefined) {
-      throw new Error(`When pattern: ${when} is missing output pattern.`);
+    if (newFrame === undefined) return;
+    return { ...newFrame, [actionSymbol]: record.id };
+  }
+  /**
+   * Matches a record against an `anyAction()` pattern, returning the
+   * bindings of the concept and action name variables.
+   */
+  matchAnyAction(record: ActionRecord, any: AnyAction, frame: Frame) {
+    const { of, name, concept, action } = any.options;
+    if (of !== undefined && record.concept !== (this.targets.get(of) ?? of)) {
+      return;
     }
-    for (const [key, value] of Object.entries(when.output)) {
-      if (record.output === undefined) return;
-      const recordValue = record.output[key];
+    const names = actionNames(record);
+    if (name !== undefined && !name(names.action, names.concept)) return;
+    const bindings: Frame = {};
+    for (
+      const [variable, value] of [[concept, names.concept], [
+        action,
+        names.action,
+      ]] as const
+    ) {
+      if (variable === undefined) continue;
+      const bound = frame[variable];
+      if (bound !== undefined && bound !== value) return;
+      bindings[variable] = value;
+    }
+    return bindings;
+  }
+  matchMapping(
+    pattern: Mapping,
+    values: object,
+    frame: Frame,
+    into: Frame = frame,
+  ) {
+    let newFrame = { ...into };
+    for (const [key, field] of Object.entries(pattern)) {
+      const recordValue = (values as Mapping)[key];
+      if (field instanceof Absent) {
+        if (recordValue !== undefined) return;
+        continue;
+      }
+      if (field instanceof Not) {
+        const excluded = typeof field.value === "symbol"
+          ? newFrame[field.value]
+          : field.value;
+        if (excluded === undefined) {
+          throw new Error(
+            `Negated variable ${String(field.value)} is not bound.`,
+          );
+        }
+        if (recordValue === excluded) return;
+        continue;
+      }
+      let value = field;
+      if (field instanceof Optional) {
+        if (recordValue === undefined) {
+          const { pattern, fallback } = field;
+          if (typeof pattern === "symbol" && newFrame[pattern] === undefined) {
+            newFrame = { ...newFrame, [pattern]: fallback };
+          }
+          continue;
+        }
+        value = field.pattern;
+      }
       if (recordValue === undefined) return;
       if (typeof value === "symbol") {
         const bound = frame[value];
@@ -275,14 +900,86 @@ export class SyncConcept {
         if (recordValue !== value) return;
       }
     }
-    return { ...newFrame, [actionSymbol]: record.id };
+    return newFrame;
   }
 
+  // Answers an action from the recording when replaying its flow
+  private perform(
+    record: ActionRecord,
+    action: (input: Mapping) => Mapping | Promise<Mapping>,
+  ) {
+    const replay = this.flows.get(record.flow)?.replay;
+    if (replay === undefined) return action(record.input);
+    const { concept, action: name } = actionNames(record);
+    return replay.perform(concept, name, record.input);
+  }
+  // The state of the flow whose `where` clause is making a query, if any
+  private queryingFlow() {
+    const flow = currentContext().flow;
+    return flow === undefined ? undefined : this.flows.get(flow);
+  }
+  /**
+   * Makes a query, answering it from the recording when replaying a flow
+   * and recording its results when recording one.
+   */
+  private callQuery(
+    concept: object,
+    query: string,
+    input: Mapping,
+    call: () => unknown[] | Promise<unknown[]>,
+  ) {
+    const state = this.queryingFlow();
+    const name = conceptName(concept);
+    if (state?.replay !== undefined) {
+      return state.replay.query(name, query, input);
+    }
+    const output = call();
+    const recorder = state?.recorder;
+    if (recorder === undefined) return output;
+    const record = (results: unknown[]) => {
+      recorder.query(name, query, input, results);
+      return results;
+    };
+    return output instanceof Promise ? output.then(record) : record(output);
+  }
+  // As `callQuery`, for the batch variant of a query
+  private callBatch(
+    concept: object,
+    query: string,
+    inputs: Mapping[],
+    call: () => unknown[][] | Promise<unknown[][]>,
+  ) {
+    const state = this.queryingFlow();
+    const name = conceptName(concept);
+    const replay = state?.replay;
+    if (replay !== undefined) {
+      return inputs.map((input) => replay.query(name, query, input));
+    }
+    const outputs = call();
+    const recorder = state?.recorder;
+    if (recorder === undefined) return outputs;
+    const record = (results: unknown[][]) => {
+      inputs.forEach((input, i) =>
+        recorder.query(name, query, input, results[i] ?? [])
+      );
+      return results;
+    };
+    return outputs instanceof Promise ? outputs.then(record) : record(outputs);
+  }
   instrumentConcept<T extends object>(concept: T) {
     const Action = this.Action;
     const synchronize = this.synchronize.bind(this);
+    const logging = () => this.logging;
+    const beginAction = this.beginAction.bind(this);
+    const endAction = this.endAction.bind(this);
+    const failFlow = this.failFlow.bind(this);
+    const tracer = this.tracer;
+    const metrics = this.metrics;
+    const perform = this.perform.bind(this);
+    const callQuery = this.callQuery.bind(this);
+    const callBatch = this.callBatch.bind(this);
     const boundActions = this.boundActions;
-    return new Proxy(concept, {
+    const proxy = new Proxy(concept, {
       get(target, prop, receiver) {
         const value = Reflect.get(target, prop, receiver);
         // Bind queries (starts with "_") without instrumenting
@@ -291,9 +988,20 @@ export class SyncConcept {
         ) {
           let bound = boundActions.get(value);
           if (bound === undefined) {
-            bound = value.bind(concept);
-            if (bound === undefined) {
-              throw new Error(`Action ${value} not found.`);
+            const query = value.bind(concept);
+            const name = value.name;
+            bound = (input: Mapping) =>
+              callQuery(concept, name, input, () => query(input));
+            // Let `Frames.query` use the batch variant, if there is one
+            const batch = Reflect.get(target, `${name}Batch`);
+            if (typeof batch === "function") {
+              (bound as { batch?: BatchQuery }).batch = (inputs: Mapping[]) =>
+                callBatch(
+                  concept,
+                  name,
+                  inputs,
+                  () => batch.call(concept, inputs),
+                );
             }
             boundActions.set(value, bound);
           }
@@ -306,6 +1014,8 @@ export class SyncConcept {
           let instrumented = boundActions.get(value);
           if (instrumented === undefined) {
             const action = value.bind(concept);
+            const names = { concept: conceptName(concept), action: value.name };
+            const actionMetrics = metrics.action(names.concept, names.action);
             // To allow this.action to be reactive, we can bind receiver instead
             // However, this might break access to private fields or methods
             // const action = value.bind(receiver);
@@ -318,6 +1028,7 @@ export class SyncConcept {
                 [actionId]: id,
                 ...input
               } = args;
+              const isRoot = flowToken === undefined;
               if (flowToken === undefined) {
                 flowToken = uuid();
               }
@@ -343,11 +1054,66 @@ export class SyncConcept {
                 flow: flowToken,
               };
 
-              Action.invoke(actionRecord);
-              const output = await action(input);
-              Action.invoked({ id, output });
-              await synchronize({ ...actionRecord, output });
-              return output;
+              beginAction(actionRecord);
+              // Actions dispatched by a `then` name the sync that caused them
+              const parent = currentContext().span;
+              const attributes: SpanAttributes = { ...names };
+              if (parent?.kind === "then") {
+                attributes.sync = parent.attributes.sync;
+              }
+              try {
+                return await tracer.span(
+                  `${names.concept}.${names.action}`,
+                  "action",
+                  flowToken,
+                  attributes,
+                  async (span) => {
+                    await Action.invoke(actionRecord);
+                    actionMetrics.invocations++;
+                    const start = performance.now();
+                    // Time the action alone, before the syncs it causes
+                    const observe = () =>
+                      actionMetrics.seconds.observe(
+                        (performance.now() - start) / 1000,
+                      );
+                    let output;
+                    try {
+                      output = await perform(actionRecord, action);
+                      observe();
+                    } catch (e) {
+                      observe();
+                      actionMetrics.errors++;
+                      // Record the failure so that syncs can react to it
+                      const error = toActionError(e);
+                      Tracer.fail(span, e);
+                      recordTransactionError(e);
+                      await Action.invoked({ id, error });
+                      await synchronize({ ...actionRecord, error });
+                      // Rethrow only to external callers, which own the flow
+                      if (isRoot) throw e;
+                      if (logging() !== Logging.OFF) {
+                        console.error(`Action ${instrumented} threw:`, e);
+                      }
+                      return;
+                    }
+                    await Action.invoked({ id, output });
+                    // An error output rolls back the transaction the action
+                    // runs in, if any, just as a thrown error does
+                    const { error } = (output ?? {}) as { error?: unknown };
+                    if (error !== undefined) {
+                      recordTransactionError(new Error(String(error)));
+                    }
+                    await synchronize({ ...actionRecord, output });
+                    return output;
+                  },
+                );
+              } catch (e) {
+                // Listeners are told that the flow of a failed root failed
+                if (isRoot) failFlow(flowToken, e);
+                throw e;
+              } finally {
+                await endAction(actionRecord);
+              }
             };
             instrumented.concept = concept;
             instrumented.action = action;
@@ -365,6 +1131,9 @@ export class SyncConcept {
         return value;
       },
     });
+    this.targets.set(proxy, concept);
+    this.concepts.set(conceptName(concept), proxy);
+    return proxy;
   }
   instrument<T extends Record<string, object>>(concepts: T): T {
     return Object.fromEntries(
@@ -0,0 +1,173 @@
+import type { Db } from "npm:mongodb";
+import {
+  ActionConcept,
+  InMemoryActionStore,
+  Logging,
+  MongoActionStore,
+  SyncConcept,
+} from "../mod.ts";
+import {
+  assertDeepEqual,
+  assertEqual,
+  setLogging,
+  TestRunner,
+} from "./helpers.ts";
+import {
+  ButtonConcept,
+  CounterConcept,
+  RecorderConcept,
+  WorkerConcept,
+} from "./mocks.ts";
+
+export function registerActionCases(runner: TestRunner) {
+  runner.test("action log can be queried by flow, action and time", async () => {
+    const store = new InMemoryActionStore({ maxRecords: 100 });
+    const Sync = new SyncConcept(new ActionConcept(store));
+    setLogging(Sync, Logging.OFF);
+    const { Button, Recorder } = Sync.instrument({
+      Button: new ButtonConcept(),
+      Recorder: new RecorderConcept(),
+    });
+
+    const before = new Date();
+    await Button.clicked({ kind: "a" });
+    await Recorder.record({ tag: "x" });
+    await Recorder.record({ tag: "y" });
+
+    const records = await Sync.Action._getByAction({
+      concept: "Recorder",
+      action: "record",
+    });
+    assertEqual(records.length, 2);
+    assertEqual(records[0].input.tag, "x");
+
+    const flow = await Sync.Action._getLogByFlow({ flow: records[1].flow });
+    assertEqual(flow.length, 1);
+    assertEqual(flow[0].output?.tag, "y");
+
+    const inRange = await Sync.Action._getByTimeRange({ from: before });
+    assertEqual(inRange.length, 3);
+    const future = new Date(Date.now() + 60_000);
+    assertEqual(
+      (await Sync.Action._getByTimeRange({ from: future })).length,
+      0,
+    );
+  });
+
+  runner.test("finished flows are forgotten without retention", async () => {
+    const store = new InMemoryActionStore();
+    const Sync = new SyncConcept(new ActionConcept(store));
+    setLogging(Sync, Logging.OFF);
+    const { Counter } = Sync.instrument({ Counter: new CounterConcept() });
+
+    for (let i = 0; i < 1000; i++) {
+      await Counter.increment({});
+    }
+    assertEqual(Counter.count, 1000);
+    assertEqual(store.size, 0);
+  });
+
+  runner.test("in-memory retention forgets the earliest finished flows", async () => {
+    const store = new InMemoryActionStore({ maxRecords: 2 });
+    const Sync = new SyncConcept(new ActionConcept(store));
+    setLogging(Sync, Logging.OFF);
+    const { Counter } = Sync.instrument({ Counter: new CounterConcept() });
+
+    await Counter.increment({});
+    await Counter.increment({});
+    await Counter.increment({});
+    assertEqual(store.size, 2);
+    assertEqual(Counter.count, 3);
+  });
+
+  runner.test("in-memory retention expires idle flows", async () => {
+    const store = new InMemoryActionStore({ maxAge: 0 });
+    const Sync = new SyncConcept(new ActionConcept(store));
+    setLogging(Sync, Logging.OFF);
+    const { Counter } = Sync.instrument({ Counter: new CounterConcept() });
+
+    await Counter.increment({});
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await Counter.increment({});
+    assertEqual(store.size, 1);
+  });
+
+  runner.test("in-memory retention never evicts running flows", async () => {
+    const store = new InMemoryActionStore({ maxRecords: 1 });
+    const Sync = new SyncConcept(new ActionConcept(store));
+    setLogging(Sync, Logging.OFF);
+    const { Counter, Worker } = Sync.instrument({
+      Counter: new CounterConcept(),
+      Worker: new WorkerConcept(),
+    });
+
+    const slow = Worker.work({ tag: "slow", ms: 10 });
+    await Counter.increment({});
+    assertEqual((await slow).tag, "slow");
+    assertEqual(Counter.count, 1);
+  });
+
+  runner.test("persisted action log redacts credentials", async () => {
+    const written: Record<string, unknown>[] = [];
+    const store = new MongoActionStore({
+      collection: () => ({
+        createIndex: () => Promise.resolve(),
+        insertOne: (doc: Record<string, unknown>) => {
+          written.push(doc);
+          return Promise.resolve();
+        },
+        updateOne: (_: unknown, update: { $set: Record<string, unknown> }) => {
+          written.push(update.$set);
+          return Promise.resolve();
+        },
+      }),
+    } as unknown as Db);
+    const Sync = new SyncConcept(new ActionConcept(store));
+    setLogging(Sync, Logging.OFF);
+    const { Recorder } = Sync.instrument({ Recorder: new RecorderConcept() });
+
+    const login = {
+      tag: "login",
+      password: "hunter2",
+      headers: { Authorization: "Bearer abc" },
+    };
+    await Recorder.record(login);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const [inserted, updated] = written;
+    assertDeepEqual(inserted.input, {
+      tag: "login",
+      password: "[redacted]",
+      headers: { Authorization: "[redacted]" },
+    });
+    assertEqual((updated.output as { tag: string }).tag, "login");
+  });
+
+  runner.test("actions do not wait for the action log to be written", async () => {
+    const written: string[] = [];
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => release = resolve);
+    const store = new MongoActionStore({
+      collection: () => ({
+        createIndex: () => Promise.resolve(),
+        insertOne: async () => {
+          await released;
+          written.push("insert");
+        },
+        updateOne: () => {
+          written.push("update");
+          return Promise.resolve();
+        },
+      }),
+    } as unknown as Db);
+    const Sync = new SyncConcept(new ActionConcept(store));
+    setLogging(Sync, Logging.OFF);
+    const { Recorder } = Sync.instrument({ Recorder: new RecorderConcept() });
+
+    await Recorder.record({ tag: "fast" });
+    assertDeepEqual(written, []);
+    release();
+    await store.flush();
+    // The output of an action is written after the action itself
+    assertDeepEqual(written, ["insert", "update"]);
+  });
+}
@@ -0,0 +1,90 @@
+import { actions, anyAction, Logging, SyncConcept, Vars } from "../mod.ts";
+import { validateSyncs } from "../validate.ts";
+import { assert, assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import {
+  ButtonConcept,
+  CounterConcept,
+  NotificationConcept,
+  RecorderConcept,
+} from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const concepts = Sync.instrument({
+    Button: new ButtonConcept(),
+    Counter: new CounterConcept(),
+    Notification: new NotificationConcept(),
+    Recorder: new RecorderConcept(),
+  });
+  return { Sync, ...concepts };
+}
+
+export function registerAnyActionCases(runner: TestRunner) {
+  runner.test("anyAction matches every action of a concept", async () => {
+    const { Sync, Counter, Recorder } = setup();
+    const AuditCounter = ({ action }: Vars) => ({
+      when: actions([anyAction({ of: Counter, action }), {}, {}]),
+      then: actions([Recorder.record, { tag: action }]),
+    });
+    Sync.register({ AuditCounter });
+
+    await Counter.increment({});
+    await Counter.decrement({});
+    await Recorder.record({ tag: "direct" });
+    assertEqual(Recorder.order.join(","), "increment,decrement,direct");
+  });
+
+  runner.test("anyAction filters by name and binds the concept", async () => {
+    const { Sync, Button, Counter, Notification, Recorder } = setup();
+    const AuditIncrements = ({ concept, action }: Vars) => ({
+      when: actions([
+        anyAction({ name: (name) => name.startsWith("inc"), concept, action }),
+        {},
+        {},
+      ]),
+      then: actions([Notification.notify, { message: concept }]),
+    });
+    const RecordAfterClick = ({ action }: Vars) => ({
+      when: actions(
+        [Button.clicked, { kind: "inc" }, {}],
+        [anyAction({ of: Counter, action }), {}, {}],
+      ),
+      then: actions([Recorder.record, { tag: action }]),
+    });
+    const ClickIncrements = ({}: Vars) => ({
+      when: actions([Button.clicked, { kind: "inc" }, {}]),
+      then: actions([Counter.increment, {}]),
+    });
+    Sync.register({ AuditIncrements, RecordAfterClick, ClickIncrements });
+
+    await Button.clicked({ kind: "inc" });
+    await Counter.decrement({});
+    assertEqual(Notification.messages.join(","), "Counter");
+    assertEqual(Recorder.order.join(","), "increment");
+  });
+
+  runner.test("anyAction is rejected in then and checked by the validator", () => {
+    const { Sync, Counter, Recorder } = setup();
+    const InvalidThen = ({}: Vars) => ({
+      when: actions([Counter.increment, {}, {}]),
+      then: actions([anyAction({ of: Recorder }), {}]),
+    });
+    let error: unknown;
+    try {
+      Sync.register({ InvalidThen });
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof Error, "registering anyAction in then throws");
+
+    const AuditEverything = ({ action }: Vars) => ({
+      when: actions([anyAction({ action }), {}, {}]),
+      then: actions([Recorder.record, { tag: action }]),
+    });
+    Sync.register({ AuditEverything });
+    const { issues } = validateSyncs([Sync.syncs.AuditEverything]);
+    assertEqual(issues.filter((i) => i.kind === "cycle").length, 1);
+    assertEqual(issues.filter((i) => i.kind === "unhandled").length, 0);
+  });
+}
@@ -0,0 +1,71 @@
+import { actions, Logging, SyncConcept, thrown, Vars } from "../mod.ts";
+import { assert, assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import { ButtonConcept, FaultyConcept, RecorderConcept } from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  Sync.evictFinishedFlows = false;
+  const { Button, Faulty, Recorder } = Sync.instrument({
+    Button: new ButtonConcept(),
+    Faulty: new FaultyConcept(),
+    Recorder: new RecorderConcept(),
+  });
+  const ClickExplodes = ({ kind }: Vars) => ({
+    when: actions([Button.clicked, { kind }, {}]),
+    then: actions([Faulty.explode, { reason: kind }]),
+  });
+  const RecordFailure = ({ message }: Vars) => ({
+    when: actions([Faulty.explode, {}, thrown({ message })]),
+    then: actions([Recorder.record, { tag: message }]),
+  });
+  const RecordSuccess = ({}: Vars) => ({
+    when: actions([Faulty.explode, {}, {}]),
+    then: actions([Recorder.record, { tag: "success" }]),
+  });
+  Sync.register({ ClickExplodes, RecordFailure, RecordSuccess });
+  return { Sync, Button, Faulty, Recorder };
+}
+
+export function registerErrorCases(runner: TestRunner) {
+  runner.test("thrown then action is recorded and matched by thrown()", async () => {
+    const { Sync, Button, Recorder } = setup();
+
+    await Button.clicked({ kind: "boom" });
+    assertEqual(Recorder.order.join(","), "boom");
+    const [failed] = await Sync.Action._getByAction({
+      concept: "Faulty",
+      action: "explode",
+    });
+    assertEqual(failed.output, undefined);
+    assertEqual(failed.error?.message, "boom");
+  });
+
+  runner.test("thrown root action is rethrown after syncs react", async () => {
+    const { Faulty, Recorder } = setup();
+
+    let caught: unknown;
+    try {
+      await Faulty.explode({ reason: "direct" });
+    } catch (e) {
+      caught = e;
+    }
+    assert(caught instanceof Error, "Expected root action to throw");
+    assertEqual(Recorder.order.join(","), "direct");
+  });
+
+  runner.test("later then actions are skipped after one throws", async () => {
+    const { Sync, Button, Faulty, Recorder } = setup();
+    const ExplodeThenRecord = ({ kind }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      then: actions(
+        [Faulty.explode, { reason: kind }],
+        [Recorder.record, { tag: "after" }],
+      ),
+    });
+    Sync.register({ ExplodeThenRecord });
+
+    await Button.clicked({ kind: "boom" });
+    assertEqual(Recorder.order.join(","), "boom,boom");
+  });
+}
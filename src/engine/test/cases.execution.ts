@@ -0,0 +1,95 @@
+import {
+  actions,
+  Execution,
+  Frames,
+  Logging,
+  SyncConcept,
+  Vars,
+} from "../mod.ts";
+import { runConcurrently } from "../util.ts";
+import { assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import { ButtonConcept, WorkerConcept } from "./mocks.ts";
+
+// Fans out one click to four slow `work` actions, the first being slowest
+function setup(execution?: Execution) {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  Sync.evictFinishedFlows = false;
+  const { Button, Worker } = Sync.instrument({
+    Button: new ButtonConcept(),
+    Worker: new WorkerConcept(),
+  });
+  const FanOut = ({ tag, ms }: Vars) => ({
+    when: actions([Button.clicked, { kind: "fan" }, {}]),
+    where: (frames: Frames) =>
+      frames.flatMap((frame) =>
+        [["a", 40], ["b", 10], ["c", 10], ["d", 10]].map(([t, m]) => ({
+          ...frame,
+          [tag]: t,
+          [ms]: m,
+        }))
+      ),
+    then: actions([Worker.work, { tag, ms }]),
+    execution,
+  });
+  Sync.register({ FanOut });
+  return { Sync, Button, Worker };
+}
+
+export function registerExecutionCases(runner: TestRunner) {
+  runner.test("then actions run sequentially by default", async () => {
+    const { Button, Worker } = setup();
+
+    await Button.clicked({ kind: "fan" });
+    assertEqual(Worker.maxActive, 1);
+    assertEqual(Worker.finished.join(","), "a,b,c,d");
+  });
+
+  runner.test("concurrent then actions run at once", async () => {
+    const { Button, Worker } = setup("concurrent");
+
+    await Button.clicked({ kind: "fan" });
+    assertEqual(Worker.maxActive, 4);
+    assertEqual(Worker.finished[3], "a");
+  });
+
+  runner.test("concurrency limits then actions running at once", async () => {
+    const { Sync, Button, Worker } = setup({ concurrency: 2 });
+
+    await Button.clicked({ kind: "fan" });
+    assertEqual(Worker.maxActive, 2);
+    assertEqual(Worker.finished.length, 4);
+    // Bookkeeping follows frame order, not the order actions complete in
+    const [click] = await Sync.Action._getByAction({ concept: "Button" });
+    const works = await Sync.Action._getByAction({ concept: "Worker" });
+    const last = works.find((work) => work.input.tag === "d");
+    const synced = Sync.Action._getById(click.id)?.synced;
+    assertEqual(synced?.get("FanOut"), last?.id);
+  });
+
+  runner.test("concurrent tasks finish before an error is rethrown", async () => {
+    const finished: string[] = [];
+    let error: unknown;
+    try {
+      await runConcurrently(["fail", "slow"], 2, async (item) => {
+        if (item === "fail") throw new Error("fail");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        finished.push(item);
+      });
+    } catch (e) {
+      error = e;
+    }
+    assertEqual((error as Error).message, "fail");
+    assertEqual(finished.join(","), "slow");
+  });
+
+  runner.test("concurrency must be a positive integer", () => {
+    let error: unknown;
+    try {
+      setup({ concurrency: 0 });
+    } catch (e) {
+      error = e;
+    }
+    assertEqual(error instanceof Error, true);
+  });
+}
@@ -0,0 +1,106 @@
+import { actions, Logging, SyncConcept, Vars } from "../mod.ts";
+import { assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import { GatewayConcept, NotificationConcept } from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const { Gateway, Notification } = Sync.instrument({
+    Gateway: new GatewayConcept(),
+    Notification: new NotificationConcept(),
+  });
+  const notify = (message: string) => ({}: Vars) => ({
+    when: actions([Gateway.request, { path: "/notify" }, {}]),
+    then: actions([Notification.notify, { message }]),
+  });
+  const Greet = ({ user }: Vars) => ({
+    when: actions([Gateway.request, { path: "/greet", user }, {}]),
+    flag: { name: "greeting", user },
+    then: actions([Notification.notify, { message: user }]),
+  });
+  Sync.register({
+    "planner.First": notify("first"),
+    "planner.Second": notify("second"),
+    "tasks.Third": notify("third"),
+    "greet.Greet": Greet,
+  });
+  const notified = async () => {
+    Notification.messages.length = 0;
+    await Gateway.request({ path: "/notify" });
+    return [...Notification.messages].sort().join(",");
+  };
+  const greeted = async (...users: string[]) => {
+    Notification.messages.length = 0;
+    for (const user of users) await Gateway.request({ path: "/greet", user });
+    return Notification.messages.join(",");
+  };
+  return { Sync, notified, greeted };
+}
+
+export function registerFlagCases(runner: TestRunner) {
+  runner.test("disabled syncs no longer fire until enabled", async () => {
+    const { Sync, notified } = setup();
+    assertEqual(await notified(), "first,second,third");
+    Sync.disable("planner.First");
+    assertEqual(Sync.isEnabled("planner.First"), false);
+    assertEqual(await notified(), "second,third");
+    Sync.enable("planner.First");
+    assertEqual(await notified(), "first,second,third");
+  });
+
+  runner.test("groups disable syncs by qualified name", async () => {
+    const { Sync, notified } = setup();
+    Sync.disable("planner.*");
+    assertEqual(await notified(), "third");
+    // The most specific setting applies
+    Sync.enable("planner.Second");
+    assertEqual(await notified(), "second,third");
+    // Setting a group again overrides settings of its syncs
+    Sync.disable("planner.*");
+    assertEqual(await notified(), "third");
+    Sync.disable("*");
+    assertEqual(await notified(), "");
+    Sync.enable("tasks.*");
+    assertEqual(await notified(), "third");
+  });
+
+  runner.test("disabled syncs are not counted as considered", async () => {
+    const { Sync, notified } = setup();
+    Sync.disable("tasks.Third");
+    await notified();
+    assertEqual(Sync.metrics.sync("tasks.Third").considered, 0);
+    assertEqual(Sync.metrics.sync("planner.First").considered, 1);
+  });
+
+  runner.test("flags gate syncs per user in the frame", async () => {
+    const { Sync, greeted } = setup();
+    // A flag that was never set is on for everyone
+    assertEqual(await greeted("a", "b"), "a,b");
+    Sync.flags.set("greeting", { users: ["b"] });
+    assertEqual(await greeted("a", "b"), "b");
+    Sync.flags.set("greeting", { percentage: 100 });
+    assertEqual(await greeted("a", "b"), "a,b");
+    Sync.flags.set("greeting", { percentage: 0 });
+    assertEqual(await greeted("a", "b"), "");
+    Sync.flags.delete("greeting");
+    assertEqual(await greeted("a"), "a");
+  });
+
+  runner.test("percentage rollouts are stable and grow", () => {
+    const { Sync } = setup();
+    const users = Array.from({ length: 200 }, (_, i) => `user${i}`);
+    Sync.flags.set("greeting", { percentage: 20 });
+    const some = users.filter((u) => Sync.flags.isEnabled("greeting", u));
+    assertEqual(some.length > 10 && some.length < 80, true);
+    Sync.flags.set("greeting", { percentage: 50 });
+    const more = users.filter((u) => Sync.flags.isEnabled("greeting", u));
+    assertEqual(some.every((u) => more.includes(u)), true);
+    let threw = false;
+    try {
+      Sync.flags.set("greeting", { percentage: 120 });
+    } catch {
+      threw = true;
+    }
+    assertEqual(threw, true);
+  });
+}
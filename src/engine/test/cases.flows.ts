@@ -0,0 +1,102 @@
+import { actions, Frames, Logging, SyncConcept, Vars } from "../mod.ts";
+import type { FlowFinished } from "../types.ts";
+import { assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import {
+  ButtonConcept,
+  CounterConcept,
+  ListConcept,
+  NotificationConcept,
+  RecorderConcept,
+} from "./mocks.ts";
+import { makeSyncs } from "./syncs.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const concepts = Sync.instrument({
+    Button: new ButtonConcept(),
+    Counter: new CounterConcept(),
+    Notification: new NotificationConcept(),
+    List: new ListConcept(),
+    Recorder: new RecorderConcept(),
+  });
+  const { Button, Counter, Notification, List, Recorder } = concepts;
+  Sync.register(makeSyncs(Button, Counter, Notification, List, Recorder));
+  const finished: FlowFinished[] = [];
+  Sync.onFlowFinished((event) => {
+    finished.push(event);
+  });
+  return { Sync, finished, ...concepts };
+}
+
+export function registerFlowCases(runner: TestRunner) {
+  runner.test("finished flows are reported once and evicted", async () => {
+    const { Sync, Button, Counter, finished } = setup();
+
+    await Button.clicked({ kind: "inc" });
+    assertEqual(Counter.count, 1);
+    assertEqual(finished.length, 1);
+    const [event] = finished;
+    assertEqual(event.reason, "quiescent");
+    assertEqual(event.actions.length, 2);
+    assertEqual(Sync.Action._getByFlow(event.flow), undefined);
+  });
+
+  runner.test("cascading syncs finish their flow after the last action", async () => {
+    const { Recorder, finished } = setup();
+
+    await Recorder.record({ tag: "x" });
+    assertEqual(Recorder.order.join(","), "x,x:a,x:done");
+    assertEqual(finished.length, 1);
+    assertEqual(finished[0].actions.length, 3);
+  });
+
+  runner.test("terminal actions mark the reason a flow finished", async () => {
+    const { Sync, Button, Notification, finished } = setup();
+    const NotifyOnPing = ({}: Vars) => ({
+      when: actions([Button.clicked, { kind: "ping" }, {}]),
+      then: actions([Notification.notify, { message: "pong" }]),
+    });
+    Sync.register({ NotifyOnPing });
+    Sync.finishOn(Notification.notify);
+
+    await Button.clicked({ kind: "ping" });
+    assertEqual(finished.length, 1);
+    assertEqual(finished[0].reason, "terminal");
+    assertEqual(finished[0].terminal?.input.message, "pong");
+  });
+
+  runner.test("finished flows can be retained for inspection", async () => {
+    const { Sync, Button, finished } = setup();
+    Sync.evictFinishedFlows = false;
+
+    await Button.clicked({ kind: "inc" });
+    const records = Sync.Action._getByFlow(finished[0].flow);
+    assertEqual(records?.length, 2);
+  });
+
+  runner.test("syncs that nearly applied are reported as near misses", async () => {
+    const { Sync, Button, Counter, Notification, finished } = setup();
+    const NotifyAfterTwoClicks = ({ kind }: Vars) => ({
+      when: actions(
+        [Button.clicked, { kind: "near" }, {}],
+        [Counter.increment, {}, {}],
+      ),
+      then: actions([Notification.notify, { message: kind }]),
+    });
+    const NotifyIfQuiet = ({ kind }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      where: (frames: Frames) => frames.filter(() => false),
+      then: actions([Notification.notify, { message: kind }]),
+    });
+    Sync.register({ NotifyAfterTwoClicks, NotifyIfQuiet });
+
+    await Button.clicked({ kind: "near" });
+    const { nearMisses } = finished[0];
+    const byName = Object.fromEntries(nearMisses.map((m) => [m.sync, m]));
+    assertEqual(byName.NotifyAfterTwoClicks?.stage, "when");
+    assertEqual(byName.NotifyAfterTwoClicks?.matched, 1);
+    assertEqual(byName.NotifyAfterTwoClicks?.of, 2);
+    assertEqual(byName.NotifyIfQuiet?.stage, "where");
+  });
+}
@@ -0,0 +1,180 @@
+import { count, Frames, max, min, sum, SyncConcept } from "../mod.ts";
+import { $vars } from "../vars.ts";
+import { assertEqual, TestRunner } from "./helpers.ts";
+import { DirectoryConcept } from "./mocks.ts";
+
+const { user, task, minutes, slot, total, tasks, shortest, longest, name } =
+  $vars;
+
+// Tasks of two users, and the slots scheduled for some of them
+function tasksOf() {
+  return new Frames(
+    { [user]: "u1", [task]: "t1", [minutes]: 30 },
+    { [user]: "u1", [task]: "t2", [minutes]: 15 },
+    { [user]: "u2", [task]: "t3", [minutes]: 60 },
+  );
+}
+const slots = [{ task: "t1", slot: "s1" }, { task: "t3", slot: "s3" }];
+const getSlots = ({ task: t }: { task: string }) =>
+  slots.filter((s) => s.task === t);
+const getSlotsAsync = (input: { task: string }) =>
+  Promise.resolve(getSlots(input));
+
+export function registerFramesCases(runner: TestRunner) {
+  runner.test("notExists keeps frames without query results", async () => {
+    const unscheduled = tasksOf().notExists(getSlots, { task });
+    assertEqual(unscheduled.map((f) => f[task]).join(","), "t2");
+    const unscheduledAsync = await tasksOf().notExists(getSlotsAsync, {
+      task,
+    });
+    assertEqual(unscheduledAsync.length, 1);
+    // Bound output symbols narrow which results count
+    const frames = new Frames({ [task]: "t1", [slot]: "other" });
+    const narrowed = frames.notExists(getSlots, { task }, { slot });
+    assertEqual(narrowed.length, 1);
+  });
+
+  runner.test("innerJoin merges frames agreeing on shared symbols", () => {
+    const scheduled = new Frames(
+      { [task]: "t1", [slot]: "s1" },
+      { [task]: "t3", [slot]: "s3" },
+    );
+    const joined = tasksOf().innerJoin(scheduled);
+    assertEqual(joined.length, 2);
+    assertEqual(joined[1][user], "u2");
+    assertEqual(joined[1][slot], "s3");
+  });
+
+  runner.test("groupBy computes aggregates per group", () => {
+    const grouped = tasksOf().groupBy([user], {
+      [tasks]: count(),
+      [total]: sum(minutes),
+      [shortest]: min(minutes),
+      [longest]: max(minutes),
+    });
+    assertEqual(grouped.length, 2);
+    const [u1] = grouped;
+    assertEqual(u1[user], "u1");
+    assertEqual(u1[tasks], 2);
+    assertEqual(u1[total], 45);
+    assertEqual(u1[shortest], 15);
+    assertEqual(u1[longest], 30);
+    assertEqual(new Frames().groupBy([user], { [tasks]: count() }).length, 0);
+  });
+
+  runner.test("sortBy, limit and distinct", () => {
+    const sorted = tasksOf().sortBy(minutes, "desc");
+    assertEqual(sorted.map((f) => f[task]).join(","), "t3,t1,t2");
+    assertEqual(
+      tasksOf().sortBy(minutes).limit(2).map((f) => f[task]).join(
+        ",",
+      ),
+      "t2,t1",
+    );
+    assertEqual(tasksOf().distinct([user]).length, 2);
+    assertEqual(tasksOf().concat(tasksOf()).distinct().length, 3);
+  });
+
+  runner.test("distinct and groupBy tell values apart by their types", () => {
+    const frames = new Frames(
+      { [user]: undefined, [task]: new Date(0) },
+      { [user]: null, [task]: new Date(0) },
+      { [task]: new Date(0), [user]: undefined },
+      { [user]: undefined, [task]: new Date(1) },
+    );
+    assertEqual(frames.distinct().length, 3);
+    assertEqual(frames.groupBy([task], { [tasks]: count() }).length, 2);
+    // Values without a canonical key are only equal to themselves
+    const shared = Symbol("shared");
+    const unique = new Frames(
+      { [user]: Symbol("a") },
+      { [user]: Symbol("a") },
+      { [user]: shared },
+      { [user]: shared },
+    );
+    assertEqual(unique.distinct().length, 3);
+  });
+
+  runner.test("query shares calls between identical inputs", async () => {
+    let calls = 0;
+    const counted = (input: { task: string }) => {
+      calls++;
+      return getSlotsAsync(input);
+    };
+    const frames = tasksOf().concat(tasksOf());
+    const scheduled = await frames.query(counted, { task }, { slot });
+    assertEqual(calls, 3);
+    // Results keep the order of the frames
+    assertEqual(scheduled.map((f) => f[slot]).join(","), "s1,s3,s1,s3");
+  });
+
+  runner.test("query shares calls only between equal inputs", async () => {
+    const inputs: unknown[] = [];
+    const recorded = (input: { value: unknown }) => {
+      inputs.push(input);
+      return [{}];
+    };
+    const dates = new Frames(
+      { [name]: new Date(0) },
+      { [name]: new Date(1) },
+      { [name]: new Date(1) },
+    );
+    await dates.query(recorded, { value: name }, {});
+    assertEqual(inputs.length, 2);
+    // Objects are equal whatever the order of their fields
+    const objects = new Frames(
+      { [name]: { a: 1, b: 2 } },
+      { [name]: { b: 2, a: 1 } },
+    );
+    await objects.query(recorded, { value: name }, {});
+    assertEqual(inputs.length, 3);
+    const symbols = new Frames({ [name]: Symbol("a") }, {
+      [name]: Symbol("a"),
+    });
+    await symbols.query(recorded, { value: name }, {});
+    assertEqual(inputs.length, 5);
+  });
+
+  runner.test("query bounds the concurrency of async queries", async () => {
+    let active = 0;
+    let peak = 0;
+    const slow = async ({ task: t }: { task: string }) => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+      return [{ slot: `s-${t}` }];
+    };
+    const frames = new Frames(
+      ...Array.from({ length: 10 }, (_, i) => ({ [task]: `t${i}` })),
+    );
+    const previous = Frames.concurrency;
+    Frames.concurrency = 3;
+    try {
+      const result = await frames.query(slow, { task }, { slot });
+      assertEqual(result.length, 10);
+      assertEqual(result[9][slot], "s-t9");
+      assertEqual(peak, 3);
+    } finally {
+      Frames.concurrency = previous;
+    }
+  });
+
+  runner.test("query uses the batch variant of a query", async () => {
+    const Sync = new SyncConcept();
+    const { Directory } = Sync.instrument({
+      Directory: new DirectoryConcept(),
+    });
+    const frames = new Frames(
+      { [user]: "a" },
+      { [user]: "b" },
+      { [user]: "a" },
+      { [user]: "c" },
+    );
+    const named = await frames.query(Directory._lookup, { id: user }, {
+      name,
+    });
+    assertEqual(named.map((f) => f[name]).join(","), "Ada,Bo,Ada");
+    assertEqual(Directory.batches, 1);
+    assertEqual(Directory.lookups, 0);
+  });
+}
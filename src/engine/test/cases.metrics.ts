@@ -0,0 +1,102 @@
+import { actions, Frames, Logging, SyncConcept, Vars } from "../mod.ts";
+import { assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import { DirectoryConcept, FaultyConcept, GatewayConcept } from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const { Gateway, Directory, Faulty } = Sync.instrument({
+    Gateway: new GatewayConcept(),
+    Directory: new DirectoryConcept(),
+    Faulty: new FaultyConcept(),
+  });
+  const Greet = ({ request, user, name }: Vars) => ({
+    when: actions([Gateway.request, { path: "/greet", user }, { request }]),
+    where: (frames: Frames) =>
+      frames.query(Directory._lookup, { id: user }, { name }),
+    then: actions([Gateway.respond, { request, name }]),
+  });
+  const Explode = ({}: Vars) => ({
+    when: actions([Gateway.request, { path: "/explode" }, {}]),
+    then: actions([Faulty.explode, { reason: "boom" }]),
+  });
+  const Never = ({}: Vars) => ({
+    when: actions([Gateway.request, { path: "/never" }, {}]),
+    then: actions([Faulty.explode, { reason: "never" }]),
+  });
+  Sync.register({ Greet, Explode, Never });
+  return { Sync, Gateway, Faulty };
+}
+
+export function registerMetricsCases(runner: TestRunner) {
+  runner.test("syncs count matches, frames and dispatched actions", async () => {
+    const { Sync, Gateway } = setup();
+    await Gateway.request({ path: "/greet", user: "a" });
+    // No user named "z", so `where` leaves no frames
+    await Gateway.request({ path: "/greet", user: "z" });
+    await Gateway.request({ path: "/explode" });
+
+    const greet = Sync.metrics.sync("Greet");
+    assertEqual(greet.considered, 3);
+    assertEqual(greet.matched, 2);
+    assertEqual(greet.whenFrames, 2);
+    assertEqual(greet.whereFrames, 1);
+    assertEqual(greet.fired, 1);
+    assertEqual(greet.thenActions, 1);
+    assertEqual(greet.whereSeconds.count, 2);
+    const never = Sync.metrics.sync("Never");
+    assertEqual(never.considered, 3);
+    assertEqual(never.matched, 0);
+  });
+
+  runner.test("actions count invocations, errors and duration", async () => {
+    const { Sync, Gateway } = setup();
+    await Gateway.request({ path: "/explode" });
+    const request = Sync.metrics.action("Gateway", "request");
+    assertEqual(request.invocations, 1);
+    assertEqual(request.seconds.count, 1);
+    const explode = Sync.metrics.action("Faulty", "explode");
+    assertEqual(explode.invocations, 1);
+    assertEqual(explode.errors, 1);
+  });
+
+  runner.test("actions after a failed one are counted as skipped", async () => {
+    const { Sync, Gateway, Faulty } = setup();
+    const Chain = ({ request }: Vars) => ({
+      when: actions([Gateway.request, { path: "/chain" }, { request }]),
+      then: actions(
+        [Faulty.explode, { reason: "boom" }],
+        [Gateway.respond, { request }],
+      ),
+    });
+    Sync.register({ Chain });
+    await Gateway.request({ path: "/chain" });
+    const chain = Sync.metrics.sync("Chain");
+    assertEqual(chain.fired, 1);
+    assertEqual(chain.thenActions, 1);
+    assertEqual(chain.skipped, 1);
+    assertEqual(
+      Sync.metrics.toPrometheus().includes(
+        'engine_sync_skipped_total{sync="Chain"} 1',
+      ),
+      true,
+    );
+  });
+
+  runner.test("metrics render in Prometheus text format", async () => {
+    const { Sync, Gateway } = setup();
+    await Gateway.request({ path: "/greet", user: "a" });
+    const text = Sync.metrics.toPrometheus();
+    const lines = text.split("\n");
+    const has = (line: string) => assertEqual(lines.includes(line), true);
+    has("# TYPE engine_sync_matched_total counter");
+    has('engine_sync_matched_total{sync="Greet"} 1');
+    has('engine_sync_matched_total{sync="Never"} 0');
+    has('engine_sync_where_duration_seconds_bucket{sync="Greet",le="+Inf"} 1');
+    has('engine_sync_where_duration_seconds_count{sync="Greet"} 1');
+    has(
+      'engine_action_invocations_total{concept="Gateway",action="respond"} 1',
+    );
+    assertEqual(text.endsWith("\n"), true);
+  });
+}
@@ -0,0 +1,80 @@
+import {
+  absent,
+  actions,
+  Logging,
+  not,
+  optional,
+  SyncConcept,
+  Vars,
+} from "../mod.ts";
+import { assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import { GatewayConcept, RecorderConcept } from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const concepts = Sync.instrument({
+    Gateway: new GatewayConcept(),
+    Recorder: new RecorderConcept(),
+  });
+  return { Sync, ...concepts };
+}
+
+export function registerPatternCases(runner: TestRunner) {
+  runner.test("optional fields match with or without the field", async () => {
+    const { Sync, Gateway, Recorder } = setup();
+    const RecordLabel = ({ label }: Vars) => ({
+      when: actions([
+        Gateway.request,
+        { path: "/label", label: optional(label, "none") },
+        {},
+      ]),
+      then: actions([Recorder.record, { tag: label }]),
+    });
+    Sync.register({ RecordLabel });
+
+    await Gateway.request({ path: "/label", label: "given" });
+    await Gateway.request({ path: "/label" });
+    assertEqual(Recorder.order.join(","), "given,none");
+  });
+
+  runner.test("absent fields only match when the field is missing", async () => {
+    const { Sync, Gateway, Recorder } = setup();
+    const RecordSuccess = ({}: Vars) => ({
+      when: actions([Gateway.request, { path: "/op", error: absent() }, {}]),
+      then: actions([Recorder.record, { tag: "ok" }]),
+    });
+    const RecordError = ({ error }: Vars) => ({
+      when: actions([Gateway.request, { path: "/op", error }, {}]),
+      then: actions([Recorder.record, { tag: error }]),
+    });
+    Sync.register({ RecordSuccess, RecordError });
+
+    await Gateway.request({ path: "/op" });
+    await Gateway.request({ path: "/op", error: "failed" });
+    assertEqual(Recorder.order.join(","), "ok,failed");
+  });
+
+  runner.test("negated fields exclude values and bound variables", async () => {
+    const { Sync, Gateway, Recorder } = setup();
+    const RecordOthers = ({ kind }: Vars) => ({
+      when: actions([Gateway.request, { path: not("/skip"), kind }, {}]),
+      then: actions([Recorder.record, { tag: kind }]),
+    });
+    const RecordForwarded = ({ from }: Vars) => ({
+      when: actions([
+        Gateway.request,
+        { path: "/forward", from, to: not(from) },
+        {},
+      ]),
+      then: actions([Recorder.record, { tag: from }]),
+    });
+    Sync.register({ RecordOthers, RecordForwarded });
+
+    await Gateway.request({ path: "/skip", kind: "skipped" });
+    await Gateway.request({ path: "/keep", kind: "kept" });
+    await Gateway.request({ path: "/forward", from: "a", to: "a" });
+    await Gateway.request({ path: "/forward", from: "b", to: "c" });
+    assertEqual(Recorder.order.join(","), "kept,b");
+  });
+}
@@ -0,0 +1,131 @@
+import {
+  actions,
+  anyAction,
+  Frames,
+  Logging,
+  SyncConcept,
+  Vars,
+} from "../mod.ts";
+import {
+  assertDeepEqual,
+  assertEqual,
+  setLogging,
+  TestRunner,
+} from "./helpers.ts";
+import { GatewayConcept, RecorderConcept } from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const { Gateway, Recorder } = Sync.instrument({
+    Gateway: new GatewayConcept(),
+    Recorder: new RecorderConcept(),
+  });
+  Sync.once(Gateway.respond, "request");
+  const responder =
+    (answer: string, priority?: number) => ({ request }: Vars) => ({
+      when: actions([Gateway.request, { path: "/answer" }, { request }]),
+      ...(priority !== undefined ? { priority } : {}),
+      then: actions([Gateway.respond, { request, answer }]),
+    });
+  const answers = () => Gateway.responses.map((r) => r.answer);
+  return { Sync, Gateway, Recorder, responder, answers };
+}
+
+export function registerPriorityCases(runner: TestRunner) {
+  runner.test("syncs run in order of priority, then registration", async () => {
+    const { Sync, Gateway, Recorder } = setup();
+    const record = (tag: string, priority?: number) => ({}: Vars) => ({
+      when: actions([Gateway.request, { path: "/order" }, {}]),
+      ...(priority !== undefined ? { priority } : {}),
+      then: actions([Recorder.record, { tag }]),
+    });
+    Sync.register({
+      A: record("a"),
+      B: record("b", -1),
+      C: record("c", 2),
+      D: record("d"),
+    });
+    await Gateway.request({ path: "/order" });
+    assertDeepEqual(Recorder.order, ["c", "a", "d", "b"]);
+  });
+
+  runner.test("replaced and anyAction syncs keep their registration order", async () => {
+    const { Sync, Gateway, Recorder } = setup();
+    const record = (tag: string) => ({}: Vars) => ({
+      when: actions([Gateway.request, { path: "/order" }, {}]),
+      then: actions([Recorder.record, { tag }]),
+    });
+    const any = ({ action }: Vars) => ({
+      when: actions([
+        anyAction({ of: Gateway, name: (name) => name === "request", action }),
+        { path: "/order" },
+        {},
+      ]),
+      then: actions([Recorder.record, { tag: "any" }]),
+    });
+    Sync.register({ A: record("a"), Any: any, B: record("b") });
+    Sync.register({ A: record("a2") });
+    await Gateway.request({ path: "/order" });
+    assertDeepEqual(Recorder.order, ["a2", "any", "b"]);
+  });
+
+  runner.test("only the first sync responds to a request", async () => {
+    const { Sync, Gateway, responder, answers } = setup();
+    Sync.register({ First: responder("first"), Second: responder("second") });
+    await Gateway.request({ path: "/answer" });
+    await Gateway.request({ path: "/answer" });
+    assertDeepEqual(answers(), ["first", "first"]);
+    assertEqual(Sync.metrics.sync("Second").conflicts, 2);
+    assertEqual(Sync.metrics.sync("First").conflicts, 0);
+    // A skipped response is not counted as dispatched
+    assertEqual(Sync.metrics.sync("Second").fired, 0);
+    assertEqual(Sync.metrics.sync("Second").thenActions, 0);
+    assertEqual(Sync.metrics.sync("First").fired, 2);
+  });
+
+  runner.test("the responder with the highest priority wins", async () => {
+    const { Sync, Gateway, responder, answers } = setup();
+    Sync.register({
+      Fallback: responder("fallback"),
+      Error: responder("error", 1),
+    });
+    await Gateway.request({ path: "/answer" });
+    assertDeepEqual(answers(), ["error"]);
+    assertEqual(Sync.metrics.sync("Fallback").conflicts, 1);
+    assertEqual(
+      Sync.metrics.toPrometheus().includes(
+        'engine_sync_conflicts_total{sync="Fallback"} 1',
+      ),
+      true,
+    );
+  });
+
+  runner.test("a conflict within one sync keeps the first frame", async () => {
+    const { Sync, Gateway, answers } = setup();
+    const Twice = ({ request, answer }: Vars) => ({
+      when: actions([Gateway.request, { path: "/twice" }, { request }]),
+      where: (frames: Frames) =>
+        frames.flatMap((frame) => [
+          { ...frame, [answer]: "one" },
+          { ...frame, [answer]: "two" },
+        ]),
+      then: actions([Gateway.respond, { request, answer }]),
+    });
+    Sync.register({ Twice });
+    await Gateway.request({ path: "/twice" });
+    assertDeepEqual(answers(), ["one"]);
+    assertEqual(Sync.metrics.sync("Twice").conflicts, 1);
+  });
+
+  runner.test("actions not declared once are not limited", async () => {
+    const { Sync, Gateway, Recorder } = setup();
+    const record = ({}: Vars) => ({
+      when: actions([Gateway.request, { path: "/order" }, {}]),
+      then: actions([Recorder.record, { tag: "same" }]),
+    });
+    Sync.register({ A: record, B: record });
+    await Gateway.request({ path: "/order" });
+    assertDeepEqual(Recorder.order, ["same", "same"]);
+  });
+}
@@ -0,0 +1,90 @@
+import { actions, Empty, Logging, SyncConcept, Vars } from "../mod.ts";
+import {
+  assertDeepEqual,
+  assertEqual,
+  setLogging,
+  TestRunner,
+} from "./helpers.ts";
+import { ButtonConcept, CounterConcept, NotificationConcept } from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const concepts = Sync.instrument({
+    Button: new ButtonConcept(),
+    Counter: new CounterConcept(),
+    Notification: new NotificationConcept(),
+  });
+  const { Button, Counter } = concepts;
+  const ButtonIncrement = ({}: Vars) => ({
+    when: actions([Button.clicked, { kind: "increment_counter" }, {}]),
+    then: actions([Counter.increment, {}]),
+  });
+  return { Sync, ...concepts, ButtonIncrement };
+}
+
+// A changed version of CounterConcept, as a reloaded module would define it
+const ChangedCounter = class CounterConcept {
+  public count = 0;
+  public step = 10;
+  increment(_: Empty) {
+    this.count += this.step;
+    return {};
+  }
+  _getCount(_: Empty): { count: number }[] {
+    return [{ count: this.count }];
+  }
+};
+
+export function registerReloadCases(runner: TestRunner) {
+  runner.test("registering a sync again replaces it", async () => {
+    const { Sync, Button, Counter, Notification, ButtonIncrement } = setup();
+    Sync.register({ ButtonIncrement });
+    Sync.register({ ButtonIncrement });
+    await Button.clicked({ kind: "increment_counter" });
+    assertEqual(Counter.count, 1);
+
+    // The new declaration of the same sync takes over
+    const Notify = ({}: Vars) => ({
+      when: actions([Button.clicked, { kind: "increment_counter" }, {}]),
+      then: actions([Notification.notify, { message: "clicked" }]),
+    });
+    Sync.register({ ButtonIncrement: Notify });
+    await Button.clicked({ kind: "increment_counter" });
+    assertEqual(Counter.count, 1);
+    assertDeepEqual(Notification.messages, ["clicked"]);
+  });
+
+  runner.test("unregistered syncs no longer match", async () => {
+    const { Sync, Button, Counter, ButtonIncrement } = setup();
+    Sync.register({ ButtonIncrement });
+    Sync.unregister("ButtonIncrement", "Missing");
+    await Button.clicked({ kind: "increment_counter" });
+    assertEqual(Counter.count, 0);
+    assertEqual(Sync.syncs.ButtonIncrement, undefined);
+  });
+
+  runner.test("replacing a concept keeps its state", async () => {
+    const { Sync, Button, Counter, ButtonIncrement } = setup();
+    Sync.register({ ButtonIncrement });
+    await Button.clicked({ kind: "increment_counter" });
+    assertEqual(Counter.count, 1);
+
+    Sync.replaceConcept(Counter, new ChangedCounter());
+    Sync.register({ ButtonIncrement });
+    await Button.clicked({ kind: "increment_counter" });
+    assertEqual(Counter.count, 11);
+    assertDeepEqual(Counter._getCount({}), [{ count: 11 }]);
+  });
+
+  runner.test("replacing a concept that is not instrumented throws", () => {
+    const Sync = new SyncConcept();
+    let threw = false;
+    try {
+      Sync.replaceConcept(new CounterConcept(), new ChangedCounter());
+    } catch {
+      threw = true;
+    }
+    assertEqual(threw, true);
+  });
+}
@@ -0,0 +1,113 @@
+import {
+  actions,
+  Frames,
+  Logging,
+  parseRecording,
+  redact,
+  serializeRecording,
+  SyncConcept,
+  Vars,
+} from "../mod.ts";
+import type { FlowRecording } from "../mod.ts";
+import { assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import { DirectoryConcept, GatewayConcept } from "./mocks.ts";
+
+// Greets the user of a request by name, or by id if `byId` is set
+function setup({ byId = false, path = "/greet" } = {}) {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const { Gateway, Directory } = Sync.instrument({
+    Gateway: new GatewayConcept(),
+    Directory: new DirectoryConcept(),
+  });
+  const Greet = ({ request, user, name }: Vars) => ({
+    when: actions([Gateway.request, { path, user }, { request }]),
+    where: (frames: Frames) =>
+      byId
+        ? frames.map((frame) => ({ ...frame, [name]: frame[user] }))
+        : frames.query(Directory._lookup, { id: user }, { name }),
+    then: actions([Gateway.respond, { request, name }]),
+  });
+  Sync.register({ Greet });
+  const recordings: FlowRecording[] = [];
+  Sync.recordFlows(
+    (record) => record.action === Gateway.request,
+    (recording) => {
+      recordings.push(recording);
+    },
+  );
+  return { Sync, Gateway, Directory, recordings };
+}
+
+async function record() {
+  const { Gateway, recordings } = setup();
+  const at = new Date("2025-11-14T02:00:00.000Z");
+  await Gateway.request({ path: "/greet", user: "a", at });
+  // Only flows started by a request are recorded
+  await Gateway.respond({ request: "other" });
+  assertEqual(recordings.length, 1);
+  return parseRecording(serializeRecording(recordings[0]));
+}
+
+export function registerReplayCases(runner: TestRunner) {
+  runner.test("flows are recorded with actions, queries and frames", async () => {
+    const recording = await record();
+    assertEqual(recording.root.action, "request");
+    assertEqual(recording.root.input.at instanceof Date, true);
+    assertEqual(
+      recording.actions.map((a) => `${a.concept}.${a.action}`).join(","),
+      "Gateway.request,Gateway.respond",
+    );
+    assertEqual(recording.actions[1].sync, "Greet");
+    assertEqual(recording.actions[1].input.name, "Ada");
+    assertEqual(recording.queries.length, 1);
+    assertEqual(recording.queries[0].query, "_lookup");
+    const [when, where] = recording.steps;
+    assertEqual(when.stage, "when");
+    assertEqual(when.after, "Gateway.request");
+    assertEqual(
+      JSON.stringify(when.frames),
+      '[{"user":"a","request":"request-0"}]',
+    );
+    assertEqual(where.frames[0].name, "Ada");
+  });
+
+  runner.test("replaying an unchanged flow does not diverge", async () => {
+    const recording = await record();
+    const { Sync, Gateway, Directory } = setup();
+    const { divergences, replayed } = await Sync.replay(recording);
+    assertEqual(divergences.length, 0);
+    assertEqual(replayed.actions.length, 2);
+    // Actions and queries were answered from the recording
+    assertEqual(Gateway.responses.length, 0);
+    assertEqual(Directory.batches + Directory.lookups, 0);
+  });
+
+  runner.test("redacted recordings replay without their credentials", async () => {
+    const { Gateway, recordings } = setup();
+    await Gateway.request({ path: "/greet", user: "a", token: "secret-1" });
+    const text = serializeRecording(redact(recordings[0]));
+    assertEqual(text.includes("secret-1"), false);
+
+    const { Sync } = setup();
+    const { divergences } = await Sync.replay(parseRecording(text));
+    assertEqual(divergences.length, 0);
+  });
+
+  runner.test("replay reports where changed syncs diverge", async () => {
+    const recording = await record();
+
+    const changed = await setup({ byId: true }).Sync.replay(recording);
+    assertEqual(
+      changed.divergences.map((d) => d.kind).join(","),
+      "changed,frames",
+    );
+    assertEqual(changed.divergences[0].sync, "Greet");
+
+    const unmatched = await setup({ path: "/hello" }).Sync.replay(recording);
+    assertEqual(
+      unmatched.divergences.map((d) => d.kind).join(","),
+      "missing,frames",
+    );
+  });
+}
@@ -0,0 +1,137 @@
+import {
+  actions,
+  type FlowFinished,
+  type FlowRecording,
+  later,
+  Logging,
+  SyncConcept,
+  Vars,
+} from "../mod.ts";
+import {
+  assertDeepEqual,
+  assertEqual,
+  setLogging,
+  TestRunner,
+} from "./helpers.ts";
+import { AlarmConcept, GatewayConcept, NotificationConcept } from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const { Gateway, Notification, Alarm } = Sync.instrument({
+    Gateway: new GatewayConcept(),
+    Notification: new NotificationConcept(),
+    Alarm: new AlarmConcept(),
+  });
+  Sync.scheduleWith(Alarm.schedule, Alarm.fire);
+  const Remind = ({ message, delay }: Vars) => ({
+    when: actions([Gateway.request, { path: "/remind", message, delay }, {}]),
+    then: actions([
+      later(Notification.notify, { delay, key: "reminder" }),
+      { message },
+    ]),
+  });
+  const finished: FlowFinished[] = [];
+  Sync.onFlowFinished((event) => {
+    finished.push(event);
+  });
+  return { Sync, Gateway, Notification, Alarm, Remind, finished };
+}
+
+export function registerTimerCases(runner: TestRunner) {
+  runner.test("replaying a flow that schedules an action does not diverge", async () => {
+    const recordings: FlowRecording[] = [];
+    const first = setup();
+    first.Sync.register({ Remind: first.Remind });
+    first.Sync.recordFlows(
+      (record) => record.action === first.Gateway.request,
+      (recording) => {
+        recordings.push(recording);
+      },
+    );
+    await first.Gateway.request({ path: "/remind", message: "hi", delay: 10 });
+
+    const { Sync, Remind, Alarm } = setup();
+    Sync.register({ Remind });
+    const { divergences } = await Sync.replay(recordings[0]);
+    assertDeepEqual(divergences, []);
+    // The timer was answered from the recording
+    assertEqual(Alarm.alarms.size, 0);
+  });
+
+  runner.test("later schedules the action instead of invoking it", async () => {
+    const { Sync, Gateway, Notification, Alarm, Remind, finished } = setup();
+    Sync.register({ Remind });
+    await Gateway.request({ path: "/remind", message: "hi", delay: 5000 });
+    assertDeepEqual(Notification.messages, []);
+    const [[timer, alarm]] = [...Alarm.alarms];
+    assertEqual(timer, "timer-0");
+    assertDeepEqual(
+      { ...alarm, origin: typeof alarm.origin },
+      {
+        action: "Notification.notify",
+        input: { message: "hi" },
+        delay: 5000,
+        key: "reminder",
+        origin: "string",
+      },
+    );
+    assertEqual(alarm.origin, finished[0].flow);
+  });
+
+  runner.test("fired actions run as new flows linked to their origin", async () => {
+    const { Sync, Gateway, Notification, Alarm, Remind, finished } = setup();
+    Sync.register({ Remind });
+    await Gateway.request({ path: "/remind", message: "hi", delay: 0 });
+    const [origin] = finished;
+    await Alarm.fire({ timer: "timer-0" });
+    assertDeepEqual(Notification.messages, ["hi"]);
+    const fired = finished[1];
+    assertEqual(fired.origin, origin.flow);
+    assertEqual(fired.flow !== origin.flow, true);
+    assertDeepEqual(
+      fired.actions.map((record) => record.action),
+      [Alarm.fire, Notification.notify],
+    );
+    assertEqual(origin.origin, undefined);
+  });
+
+  runner.test("fired actions trigger syncs in their flow", async () => {
+    const { Sync, Gateway, Notification, Alarm, Remind } = setup();
+    const Echo = ({ message }: Vars) => ({
+      when: actions([Notification.notify, { message: "hi" }, { message }]),
+      then: actions([Gateway.respond, { request: "none", message }]),
+    });
+    Sync.register({ Remind, Echo });
+    await Gateway.request({ path: "/remind", message: "hi", delay: 0 });
+    await Alarm.fire({ timer: "timer-0" });
+    assertDeepEqual(Gateway.responses, [{ request: "none", message: "hi" }]);
+    // An alarm that no longer exists fires nothing
+    await Alarm.fire({ timer: "timer-0" });
+    assertDeepEqual(Notification.messages, ["hi"]);
+  });
+
+  runner.test("later requires a timer to schedule with", async () => {
+    const Sync = new SyncConcept();
+    setLogging(Sync, Logging.OFF);
+    const { Gateway, Notification } = Sync.instrument({
+      Gateway: new GatewayConcept(),
+      Notification: new NotificationConcept(),
+    });
+    const Remind = ({}: Vars) => ({
+      when: actions([Gateway.request, { path: "/remind" }, {}]),
+      then: actions([
+        later(Notification.notify, { delay: 10 }),
+        { message: "hi" },
+      ]),
+    });
+    Sync.register({ Remind });
+    let error = "";
+    try {
+      await Gateway.request({ path: "/remind" });
+    } catch (e) {
+      error = (e as Error).message;
+    }
+    assertEqual(error.includes("scheduleWith"), true);
+  });
+}
@@ -0,0 +1,136 @@
+import { mkdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import {
+  actions,
+  Frames,
+  JsonLinesExporter,
+  Logging,
+  OtlpExporter,
+  SyncConcept,
+  Vars,
+} from "../mod.ts";
+import type { Span } from "../mod.ts";
+import { assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import { DirectoryConcept, FaultyConcept, GatewayConcept } from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const { Gateway, Directory, Faulty } = Sync.instrument({
+    Gateway: new GatewayConcept(),
+    Directory: new DirectoryConcept(),
+    Faulty: new FaultyConcept(),
+  });
+  const Greet = ({ request, user, name }: Vars) => ({
+    when: actions([Gateway.request, { path: "/greet", user }, { request }]),
+    where: (frames: Frames) =>
+      frames.query(Directory._lookup, { id: user }, { name }),
+    then: actions([Gateway.respond, { request, name }]),
+  });
+  const Explode = ({}: Vars) => ({
+    when: actions([Gateway.request, { path: "/explode" }, {}]),
+    then: actions([Faulty.explode, { reason: "boom" }]),
+  });
+  Sync.register({ Greet, Explode });
+  const spans: Span[] = [];
+  Sync.tracer.addExporter({
+    export(exported) {
+      spans.push(...exported);
+    },
+  });
+  return { Sync, Gateway, spans };
+}
+
+export function registerTracingCases(runner: TestRunner) {
+  runner.test("flows are traced as nested spans", async () => {
+    const { Sync, Gateway, spans } = setup();
+    await Gateway.request({ path: "/greet", user: "a" });
+    await Sync.tracer.flush();
+    const byName = Object.fromEntries(spans.map((span) => [span.name, span]));
+    const root = byName["Gateway.request"];
+    const where = byName["where Greet"];
+    const then = byName["then Greet"];
+    const respond = byName["Gateway.respond"];
+    assertEqual(spans.length, 4);
+    assertEqual(new Set(spans.map((span) => span.traceId)).size, 1);
+    assertEqual(root.parentSpanId, undefined);
+    assertEqual(where.parentSpanId, root.spanId);
+    assertEqual(where.attributes["frames.in"], 1);
+    assertEqual(where.attributes["frames.out"], 1);
+    assertEqual(then.parentSpanId, root.spanId);
+    assertEqual(then.attributes.actions, 1);
+    assertEqual(respond.parentSpanId, then.spanId);
+    assertEqual(respond.attributes.sync, "Greet");
+    assertEqual(respond.attributes.concept, "Gateway");
+    assertEqual((root.duration ?? -1) >= 0, true);
+  });
+
+  runner.test("failed actions end their span with an error", async () => {
+    const { Sync, Gateway, spans } = setup();
+    await Gateway.request({ path: "/explode" });
+    await Sync.tracer.flush();
+    const failed = spans.find((span) => span.name === "Faulty.explode");
+    assertEqual(failed?.status, "error");
+    assertEqual(failed?.error, "boom");
+  });
+
+  runner.test("JSON lines exporter writes one line per span", async () => {
+    const path = `${tmpdir()}/spans-${crypto.randomUUID()}.jsonl`;
+    const { Sync, Gateway } = setup();
+    Sync.tracer.addExporter(new JsonLinesExporter(path));
+    try {
+      await Gateway.request({ path: "/greet", user: "a" });
+      await Sync.tracer.flush();
+      const lines = (await readFile(path, "utf8")).trim().split("\n");
+      assertEqual(lines.length, 4);
+      assertEqual(JSON.parse(lines[lines.length - 1]).name, "Gateway.request");
+    } finally {
+      await rm(path, { force: true });
+    }
+  });
+
+  runner.test("JSON lines exporter keeps writing after a failed append", async () => {
+    const dir = `${tmpdir()}/spans-${crypto.randomUUID()}`;
+    const exporter = new JsonLinesExporter(`${dir}/spans.jsonl`);
+    const span = { name: "first" } as Span;
+    try {
+      let failed = false;
+      try {
+        await exporter.export([span]);
+      } catch {
+        failed = true;
+      }
+      assertEqual(failed, true);
+      await mkdir(dir);
+      await exporter.export([{ ...span, name: "second" }]);
+      const text = await readFile(`${dir}/spans.jsonl`, "utf8");
+      assertEqual(JSON.parse(text).name, "second");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  runner.test("OTLP exporter formats spans for a collector", () => {
+    const exporter = new OtlpExporter({ endpoint: "http://collector:4318/" });
+    assertEqual(exporter.url, "http://collector:4318/v1/traces");
+    const request = exporter.toRequest([{
+      traceId: "0123456789abcdef0123456789abcdef",
+      spanId: "0123456789abcdef",
+      name: "Gateway.request",
+      kind: "action",
+      startTime: 1000.5,
+      endTime: 1002,
+      attributes: { concept: "Gateway", frames: 2 },
+      status: "error",
+      error: "boom",
+    }]);
+    const [span] = request.resourceSpans[0].scopeSpans[0].spans;
+    assertEqual(span.startTimeUnixNano, "1000500000");
+    assertEqual(span.endTimeUnixNano, "1002000000");
+    assertEqual(
+      JSON.stringify(span.attributes[2]),
+      '{"key":"frames","value":{"intValue":"2"}}',
+    );
+    assertEqual(span.status.code, 2);
+  });
+}
@@ -0,0 +1,172 @@
+import { actions, Logging, SyncConcept, Vars } from "../mod.ts";
+import type { Db } from "npm:mongodb";
+import { sessionAware, TransactionAbortedError } from "../transactions.ts";
+import type { SessionProvider } from "../transactions.ts";
+import { assert, assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import {
+  ButtonConcept,
+  FakeSession,
+  FaultyConcept,
+  LedgerConcept,
+} from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const sessions: FakeSession[] = [];
+  Sync.sessions = {
+    startSession() {
+      const session = new FakeSession();
+      sessions.push(session);
+      return session;
+    },
+  } as unknown as SessionProvider;
+  const concepts = Sync.instrument({
+    Button: new ButtonConcept(),
+    Faulty: new FaultyConcept(),
+    Ledger: new LedgerConcept(),
+  });
+  const { Button, Faulty, Ledger } = concepts;
+  const WriteOnClick = ({ kind }: Vars) => ({
+    when: actions([Button.clicked, { kind }, {}]),
+    then: actions([Ledger.write, { entry: kind }]),
+    transactional: true,
+  });
+  const FailAfterWrite = ({}: Vars) => ({
+    when: actions([Ledger.write, { entry: "fail" }, {}]),
+    then: actions([Faulty.explode, { reason: "midway" }]),
+  });
+  const RefuseAfterWrite = ({}: Vars) => ({
+    when: actions([Ledger.write, { entry: "refuse" }, {}]),
+    then: actions([Faulty.refuse, { reason: "midway" }]),
+  });
+  const AuditWrite = ({}: Vars) => ({
+    when: actions([Ledger.write, {}, { entry: "ok" }]),
+    then: actions([Ledger.write, { entry: "audit" }]),
+  });
+  Sync.register({ WriteOnClick, FailAfterWrite, RefuseAfterWrite });
+  return { Sync, sessions, AuditWrite, ...concepts };
+}
+
+export function registerTransactionCases(runner: TestRunner) {
+  runner.test("transactional syncs commit their whole cascade", async () => {
+    const { Sync, sessions, AuditWrite, Button, Ledger } = setup();
+    Sync.register({ AuditWrite });
+
+    await Button.clicked({ kind: "ok" });
+    assertEqual(sessions.length, 1);
+    const [session] = sessions;
+    assertEqual(session.state, "committed");
+    assert(session.ended, "session is ended");
+    // The audit entry caused by the first write joins the same transaction
+    assertEqual(Ledger.entries.length, 2);
+    assert(
+      Ledger.entries.every((e) => e.session === session),
+      "all writes share the session",
+    );
+  });
+
+  runner.test("a thrown action rolls back the transaction", async () => {
+    const { sessions, Button, Ledger } = setup();
+
+    let error: unknown;
+    try {
+      await Button.clicked({ kind: "fail" });
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof TransactionAbortedError, "abort is reported");
+    assertEqual(sessions[0].state, "aborted");
+    assertEqual(Ledger.entries.length, 1);
+  });
+
+  runner.test("an error output rolls back the transaction", async () => {
+    const { sessions, Button } = setup();
+
+    let error: unknown;
+    try {
+      await Button.clicked({ kind: "refuse" });
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof TransactionAbortedError, "abort is reported");
+    assertEqual(sessions[0].state, "aborted");
+  });
+
+  runner.test("an error output skips the later actions of its firing", async () => {
+    const { Sync, Button, Faulty, Ledger } = setup();
+    const RefuseThenWrite = ({}: Vars) => ({
+      when: actions([Button.clicked, { kind: "refuse first" }, {}]),
+      then: actions(
+        [Faulty.refuse, { reason: "first" }],
+        [Ledger.write, { entry: "after" }],
+      ),
+      transactional: true,
+    });
+    Sync.register({ RefuseThenWrite });
+
+    try {
+      await Button.clicked({ kind: "refuse first" });
+    } catch {
+      // The abort is rethrown to the caller
+    }
+    // Only the write of WriteOnClick ran
+    assertEqual(Ledger.entries.map((e) => e.entry).join(), "refuse first");
+  });
+
+  runner.test("flow listeners are told of a rolled back transaction", async () => {
+    const { Sync, Button } = setup();
+    const failures: unknown[] = [];
+    Sync.onFlowFinished(({ error }) => {
+      failures.push(error);
+    });
+
+    await Button.clicked({ kind: "ok" });
+    try {
+      await Button.clicked({ kind: "fail" });
+    } catch {
+      // The abort is also rethrown to the caller
+    }
+    assertEqual(failures[0], undefined);
+    assert(
+      failures[1] instanceof TransactionAbortedError,
+      "the failed flow has the abort",
+    );
+  });
+
+  runner.test("transactional syncs run without a session provider", async () => {
+    const { Sync, Button, Ledger } = setup();
+    Sync.sessions = undefined;
+
+    await Button.clicked({ kind: "ok" });
+    assertEqual(Ledger.entries.length, 1);
+    assertEqual(Ledger.entries[0].session, undefined);
+  });
+
+  runner.test("actions outside transactional syncs have no session", async () => {
+    const { Ledger } = setup();
+
+    await Ledger.write({ entry: "direct" });
+    assertEqual(Ledger.entries[0].session, undefined);
+  });
+
+  runner.test("session-aware collections pass the current session", async () => {
+    const { sessions, Button, Ledger } = setup();
+    const calls: unknown[][] = [];
+    const db = sessionAware({
+      collection: () => ({
+        updateOne: (...args: unknown[]) => {
+          calls.push(args);
+          return Promise.resolve();
+        },
+      }),
+    } as unknown as Db);
+    const ledger = db.collection("ledger");
+    Ledger.collection = ledger;
+
+    await ledger.updateOne({ entry: "outside" }, {});
+    await Button.clicked({ kind: "inside" });
+    assertEqual(calls[0].length, 2);
+    assertEqual((calls[1][2] as { session: unknown }).session, sessions[0]);
+  });
+}
@@ -0,0 +1,30 @@
+import { actions, Logging, SyncConcept, Vars } from "../mod.ts";
+import { assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import { ButtonConcept, NotificationConcept } from "./mocks.ts";
+
+export function registerTypingCases(runner: TestRunner) {
+  runner.test("action patterns are checked against action signatures", async () => {
+    const Sync = new SyncConcept();
+    setLogging(Sync, Logging.OFF);
+    const { Button, Notification } = Sync.instrument({
+      Button: new ButtonConcept(),
+      Notification: new NotificationConcept(),
+    });
+    const NotifyOnClick = ({ kind }: Vars) => ({
+      when: actions([Button.clicked, {}, { kind }]),
+      then: actions([Notification.notify, { message: kind }]),
+    });
+    Sync.register({ NotifyOnClick });
+
+    // Never registered: only checks that misspelled fields fail to compile
+    const _Misspelled = ({ kind }: Vars) => ({
+      // @ts-expect-error: `kinds` is not an input of `Button.clicked`
+      when: actions([Button.clicked, { kinds: kind }, {}]),
+      // @ts-expect-error: `text` is not an output of `Notification.notify`
+      then: actions([Notification.notify, { message: kind }, { text: kind }]),
+    });
+
+    await Button.clicked({ kind: "typed" });
+    assertEqual(Notification.messages.join(","), "typed");
+  });
+}
@@ -0,0 +1,83 @@
+import { actions, Frames, Logging, SyncConcept, Vars } from "../mod.ts";
+import { toDot, validateSyncs } from "../validate.ts";
+import { assert, assertEqual, setLogging, TestRunner } from "./helpers.ts";
+import { CounterConcept, GatewayConcept, RecorderConcept } from "./mocks.ts";
+
+function setup() {
+  const Sync = new SyncConcept();
+  setLogging(Sync, Logging.OFF);
+  const concepts = Sync.instrument({
+    Counter: new CounterConcept(),
+    Gateway: new GatewayConcept(),
+    Recorder: new RecorderConcept(),
+  });
+  return { Sync, ...concepts };
+}
+
+export function registerValidateCases(runner: TestRunner) {
+  runner.test("validator flags then variables that are never bound", () => {
+    const { Sync, Gateway, Recorder } = setup();
+    const Unbound = ({ request, tag }: Vars) => ({
+      when: actions([Gateway.request, { path: "/a" }, { request }]),
+      then: actions([Gateway.respond, { request, tag }]),
+    });
+    const BoundInWhere = ({ request, tag }: Vars) => ({
+      when: actions([Gateway.request, { path: "/b" }, { request }]),
+      where: (frames: Frames) => frames.query(Recorder._getOrder, {}, { tag }),
+      then: actions([Gateway.respond, { request, tag }]),
+    });
+    Sync.register({ Unbound, BoundInWhere });
+
+    const { issues } = validateSyncs(Object.values(Sync.syncs));
+    const unbound = issues.filter((issue) => issue.kind === "unbound");
+    assertEqual(unbound.length, 1);
+    assertEqual(unbound[0].syncs.join(","), "Unbound");
+    assert(unbound[0].message.includes("tag"), "names the unbound variable");
+  });
+
+  runner.test("validator flags request paths that are never responded to", () => {
+    const { Sync, Gateway, Counter } = setup();
+    const CountRequest = ({}: Vars) => ({
+      when: actions([Gateway.request, { path: "/count" }, {}]),
+      then: actions([Counter.increment, {}]),
+    });
+    const PingResponse = ({ request }: Vars) => ({
+      when: actions([Gateway.request, { path: "/ping" }, { request }]),
+      then: actions([Gateway.respond, { request }]),
+    });
+    Sync.register({ CountRequest, PingResponse });
+
+    const { issues } = validateSyncs(Object.values(Sync.syncs), {
+      request: Gateway.request,
+      respond: Gateway.respond,
+      terminal: [Gateway.respond],
+    });
+    const unresponded = issues.filter((i) => i.kind === "unresponded");
+    assertEqual(unresponded.length, 1);
+    assert(unresponded[0].message.includes("/count"), "names the path");
+    const unhandled = issues.filter((i) => i.kind === "unhandled");
+    assertEqual(unhandled.length, 1);
+    assert(unhandled[0].message.includes("Counter.increment"), "names action");
+  });
+
+  runner.test("validator reports cycles and renders the graph", () => {
+    const { Sync, Counter } = setup();
+    const Up = ({}: Vars) => ({
+      when: actions([Counter.increment, {}, {}]),
+      then: actions([Counter.decrement, {}]),
+    });
+    const Down = ({}: Vars) => ({
+      when: actions([Counter.decrement, {}, {}]),
+      then: actions([Counter.increment, {}]),
+    });
+    Sync.register({ Up, Down });
+
+    const { issues, graph } = validateSyncs(Object.values(Sync.syncs));
+    const cycles = issues.filter((issue) => issue.kind === "cycle");
+    assertEqual(cycles.length, 1);
+    assertEqual(cycles[0].syncs.sort().join(","), "Down,Up");
+    assertEqual(graph.edges.length, 4);
+    const dot = toDot(graph);
+    assert(dot.includes(`"Counter.increment" -> "Up"`), "renders when edges");
+  });
+}
@@ -1,5 +1,7 @@
 /* Minimal mock concepts used for testing */
 import { Empty } from "../types.ts";
+import { currentSession } from "../transactions.ts";
+import type { Collection } from "npm:mongodb";
 
 export class CounterConcept {
   public count = 0;
@@ -65,3 +67,114 @@ export class RecorderConcept {
     return this.order.map((t) => ({ tag: t }));
   }
 }
+
+// Concept whose actions fail, to test error propagation
+export class FaultyConcept {
+  explode({ reason }: { reason: string }): Empty {
+    throw new Error(reason);
+  }
+  refuse({ reason }: { reason: string }) {
+    return { error: reason };
+  }
+}
+
+// Concept modeling requests and responses, as Requesting does over HTTP
+export class GatewayConcept {
+  private next = 0;
+  public responses: Record<string, unknown>[] = [];
+  request(_: { path: string; [key: string]: unknown }) {
+    return { request: `request-${this.next++}` };
+  }
+  respond(response: { request: string; [key: string]: unknown }) {
+    this.responses.push(response);
+    return { request: response.request };
+  }
+}
+
+// Concept with slow actions, to observe how many run at once
+export class WorkerConcept {
+  public active = 0;
+  public maxActive = 0;
+  public finished: string[] = [];
+  async work({ tag, ms }: { tag: string; ms: number }) {
+    this.active++;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    this.active--;
+    this.finished.push(tag);
+    return { tag };
+  }
+}
+
+// Stand-in for a MongoDB session, recording how its transaction ended
+export class FakeSession {
+  public state: "none" | "started" | "committed" | "aborted" = "none";
+  public ended = false;
+  startTransaction() {
+    this.state = "started";
+  }
+  inTransaction() {
+    return this.state === "started";
+  }
+  commitTransaction() {
+    this.state = "committed";
+    return Promise.resolve();
+  }
+  abortTransaction() {
+    this.state = "aborted";
+    return Promise.resolve();
+  }
+  endSession() {
+    this.ended = true;
+    return Promise.resolve();
+  }
+}
+
+// Concept recording the transaction session its writes would use
+export class LedgerConcept {
+  public entries: { entry: string; session: unknown }[] = [];
+  // Optionally also written to, as a concept would write to MongoDB
+  public collection?: Pick<Collection, "updateOne">;
+  async write({ entry }: { entry: string }) {
+    this.entries.push({ entry, session: currentSession() });
+    await this.collection?.updateOne({ entry }, { $set: { entry } });
+    return { entry };
+  }
+}
+
+// Concept with a query that has a batch variant, counting calls of each
+export class DirectoryConcept {
+  public lookups = 0;
+  public batches = 0;
+  private names: Record<string, string> = { a: "Ada", b: "Bo" };
+  async _lookup({ id }: { id: string }): Promise<{ name: string }[]> {
+    this.lookups++;
+    await Promise.resolve();
+    return id in this.names ? [{ name: this.names[id] }] : [];
+  }
+  async _lookupBatch(inputs: { id: string }[]) {
+    this.batches++;
+    await Promise.resolve();
+    return inputs.map(({ id }) =>
+      id in this.names ? [{ name: this.names[id] }] : []
+    );
+  }
+}
+
+// Concept holding scheduled actions in memory, as Timer does in MongoDB
+export class AlarmConcept {
+  private next = 0;
+  public alarms: Map<string, Record<string, unknown>> = new Map();
+  schedule(alarm: { action: string; input: object; [key: string]: unknown }) {
+    const timer = `timer-${this.next++}`;
+    this.alarms.set(timer, alarm);
+    return { timer };
+  }
+  fire({ timer }: { timer: string }) {
+    const alarm = this.alarms.get(timer);
+    if (alarm === undefined) return { error: `No timer ${timer}` };
+    this.alarms.delete(timer);
+    const { action, input, origin } = alarm;
+    return { timer, action, input, origin };
+  }
+}
@@ -2,11 +2,45 @@ import { TestRunner } from "./helpers.ts";
 import process from "node:process";
 import { registerBasicCases } from "./cases.basic.ts";
 import { registerEngineEdgeCases } from "./cases.engine.ts";
+import { registerActionCases } from "./cases.actions.ts";
+import { registerFlowCases } from "./cases.flows.ts";
+import { registerErrorCases } from "./cases.errors.ts";
+import { registerTypingCases } from "./cases.typing.ts";
+import { registerValidateCases } from "./cases.validate.ts";
+import { registerPatternCases } from "./cases.patterns.ts";
+import { registerAnyActionCases } from "./cases.any.ts";
+import { registerExecutionCases } from "./cases.execution.ts";
+import { registerTransactionCases } from "./cases.transactions.ts";
+import { registerFramesCases } from "./cases.frames.ts";
+import { registerReplayCases } from "./cases.replay.ts";
+import { registerTracingCases } from "./cases.tracing.ts";
+import { registerMetricsCases } from "./cases.metrics.ts";
+import { registerReloadCases } from "./cases.reload.ts";
+import { registerFlagCases } from "./cases.flags.ts";
+import { registerPriorityCases } from "./cases.priority.ts";
+import { registerTimerCases } from "./cases.timers.ts";
 
 async function main() {
   const runner = new TestRunner();
   await registerBasicCases(runner);
   await registerEngineEdgeCases(runner);
+  await registerActionCases(runner);
+  await registerFlowCases(runner);
+  await registerErrorCases(runner);
+  await registerTypingCases(runner);
+  await registerValidateCases(runner);
+  await registerPatternCases(runner);
+  await registerAnyActionCases(runner);
+  await registerExecutionCases(runner);
+  await registerTransactionCases(runner);
+  await registerFramesCases(runner);
+  await registerReplayCases(runner);
+  await registerTracingCases(runner);
+  await registerMetricsCases(runner);
+  await registerReloadCases(runner);
+  await registerFlagCases(runner);
+  await registerPriorityCases(runner);
+  await registerTimerCases(runner);
 
   const { results, ok } = await runner.run();
   const lines: string[] = [];
@@ -0,0 +1,218 @@
+import { appendFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { currentContext, engineContext } from "./context.ts";
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A timed step of a flow: an action, a `where` clause or the `then` of a
+ * sync. The spans of a flow form one trace, whose id is the flow token.
+ */
+export interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: "action" | "where" | "then";
+  // Milliseconds since the epoch
+  startTime: number;
+  endTime?: number;
+  duration?: number;
+  attributes: SpanAttributes;
+  status: "ok" | "error";
+  error?: string;
+}
+
+export interface SpanExporter {
+  export(spans: Span[]): void | Promise<void>;
+  // Sends any spans the exporter still holds
+  flush?(): void | Promise<void>;
+}
+
+function now() {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Creates the spans of flows and hands each to the exporters once it ends.
+ * Spans nest by the context they are started in, so that an action caused
+ * by a `then` is a child of that `then`.
+ */
+export class Tracer {
+  private exporters: SpanExporter[] = [];
+  private pending: Set<Promise<void>> = new Set();
+  addExporter(exporter: SpanExporter) {
+    this.exporters.push(exporter);
+  }
+  get enabled() {
+    return this.exporters.length > 0;
+  }
+  /**
+   * Runs `fn` as a span of the flow, ending the span once `fn` settles.
+   * Without exporters, `fn` runs as is.
+   */
+  async span<T>(
+    name: string,
+    kind: Span["kind"],
+    flow: string,
+    attributes: SpanAttributes,
+    fn: (span?: Span) => Promise<T>,
+  ): Promise<T> {
+    if (!this.enabled) return await fn();
+    const parent = currentContext().span;
+    const traceId = flow.replace(/-/g, "");
+    const span: Span = {
+      traceId,
+      spanId: randomBytes(8).toString("hex"),
+      ...(parent?.traceId === traceId ? { parentSpanId: parent.spanId } : {}),
+      name,
+      kind,
+      startTime: now(),
+      attributes: { flow, ...attributes },
+      status: "ok",
+    };
+    try {
+      return await engineContext.run(
+        { ...currentContext(), span },
+        () => fn(span),
+      );
+    } catch (e) {
+      Tracer.fail(span, e);
+      throw e;
+    } finally {
+      span.endTime = now();
+      span.duration = span.endTime - span.startTime;
+      this.export(span);
+    }
+  }
+  static fail(span: Span | undefined, error: unknown) {
+    if (span === undefined) return;
+    span.status = "error";
+    span.error = error instanceof Error ? error.message : String(error);
+  }
+  // Exports without holding up the flow, which must not fail with it
+  private export(span: Span) {
+    for (const exporter of this.exporters) {
+      const exported = Promise.resolve()
+        .then(() => exporter.export([span]))
+        .catch((e) => console.error("Failed to export span:", e))
+        .finally(() => this.pending.delete(exported));
+      this.pending.add(exported);
+    }
+  }
+  /**
+   * Waits for spans being exported, and flushes the exporters.
+   */
+  async flush() {
+    await Promise.all(this.pending);
+    await Promise.all(this.exporters.map((exporter) => exporter.flush?.()));
+  }
+}
+
+/**
+ * Appends each span as one line of JSON to a file.
+ */
+export class JsonLinesExporter implements SpanExporter {
+  // Appends one after another, so that lines never interleave
+  private written: Promise<void> = Promise.resolve();
+  constructor(public readonly path: string) {}
+  export(spans: Span[]) {
+    const lines = spans.map((span) => JSON.stringify(span) + "\n").join("");
+    const appended = this.written.then(() => appendFile(this.path, lines));
+    // A failed append is reported to the caller, and later ones still run
+    this.written = appended.catch(() => {});
+    return appended;
+  }
+  flush() {
+    return this.written;
+  }
+}
+
+export interface OtlpExporterOptions {
+  // Base URL of the collector, to which `/v1/traces` is added
+  endpoint?: string;
+  serviceName?: string;
+  headers?: Record<string, string>;
+  // Spans to collect before sending, unless a trace finishes first
+  maxBatch?: number;
+}
+
+function toAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === "string"
+      ? { stringValue: value }
+      : typeof value === "boolean"
+      ? { boolValue: value }
+      : Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value },
+  }));
+}
+
+function toNanos(ms: number) {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector as OTLP/HTTP JSON, by default
+ * to one running locally. Spans are sent in batches, and whenever the root
+ * span of a trace ends.
+ */
+export class OtlpExporter implements SpanExporter {
+  private batch: Span[] = [];
+  public readonly url: string;
+  constructor(private options: OtlpExporterOptions = {}) {
+    const endpoint = options.endpoint ?? "http://localhost:4318";
+    this.url = `${endpoint.replace(/\/$/, "")}/v1/traces`;
+  }
+  async export(spans: Span[]) {
+    this.batch.push(...spans);
+    const finished = spans.some((span) => span.parentSpanId === undefined);
+    if (finished || this.batch.length >= (this.options.maxBatch ?? 512)) {
+      await this.flush();
+    }
+  }
+  async flush() {
+    if (this.batch.length === 0) return;
+    const spans = this.batch;
+    this.batch = [];
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.options.headers },
+      body: JSON.stringify(this.toRequest(spans)),
+    });
+    await response.body?.cancel();
+    if (!response.ok) {
+      throw new Error(`Collector at ${this.url} replied ${response.status}`);
+    }
+  }
+  toRequest(spans: Span[]) {
+    const serviceName = this.options.serviceName ?? "concept-engine";
+    return {
+      resourceSpans: [{
+        resource: {
+          attributes: toAttributes({ "service.name": serviceName }),
+        },
+        scopeSpans: [{
+          scope: { name: "concept-engine" },
+          spans: spans.map((span) => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+            name: span.name,
+            // SPAN_KIND_INTERNAL
+            kind: 1,
+            startTimeUnixNano: toNanos(span.startTime),
+            endTimeUnixNano: toNanos(span.endTime ?? span.startTime),
+            attributes: toAttributes({ kind: span.kind, ...span.attributes }),
+            // STATUS_CODE_OK or STATUS_CODE_ERROR
+            status: span.status === "ok"
+              ? { code: 1 }
+              : { code: 2, message: span.error ?? "" },
+          })),
+        }],
+      }],
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import type { ClientSession, Collection, Db, MongoClient } from "npm:mongodb";
+import { currentContext, engineContext } from "./context.ts";
+
+/**
+ * A MongoDB transaction shared by every action caused by a transactional
+ * sync. Errors thrown by those actions are collected so the transaction can
+ * be rolled back once the cascade completes.
+ */
+export interface Transaction {
+  session: ClientSession;
+  errors: unknown[];
+}
+
+export type SessionProvider = Pick<MongoClient, "startSession">;
+
+export class TransactionAbortedError extends Error {
+  constructor(sync: string, public readonly errors: unknown[]) {
+    super(
+      `Transaction of ${sync} was rolled back after ${errors.length} failed action(s).`,
+    );
+    this.name = "TransactionAbortedError";
+  }
+}
+
+/**
+ * The session of the transaction the current action runs in, if any.
+ */
+export function currentSession(): ClientSession | undefined {
+  return currentContext().transaction?.session;
+}
+
+export function recordTransactionError(error: unknown) {
+  currentContext().transaction?.errors.push(error);
+}
+
+/**
+ * Runs `cascade` inside a new transaction, or inside the current one if it
+ * is already part of a transaction. Commits if every action succeeded, and
+ * otherwise rolls back and throws a `TransactionAbortedError`.
+ * Note that MongoDB only supports transactions on replica sets, such as
+ * Atlas clusters.
+ */
+export async function runInTransaction(
+  provider: SessionProvider,
+  sync: string,
+  cascade: () => Promise<void>,
+) {
+  const context = currentContext();
+  if (context.transaction !== undefined) return await cascade();
+  const session = provider.startSession();
+  const transaction: Transaction = { session, errors: [] };
+  try {
+    session.startTransaction();
+    await engineContext.run({ ...context, transaction }, cascade);
+    if (transaction.errors.length > 0) {
+      await session.abortTransaction();
+      throw new TransactionAbortedError(sync, transaction.errors);
+    }
+    await session.commitTransaction();
+  } catch (e) {
+    if (session.inTransaction()) await session.abortTransaction();
+    throw e;
+  } finally {
+    await session.endSession();
+  }
+}
+
+// Index of the options argument of collection methods that accept a session
+const optionsIndex: Record<string, number> = {
+  aggregate: 1,
+  bulkWrite: 1,
+  countDocuments: 1,
+  deleteMany: 1,
+  deleteOne: 1,
+  distinct: 2,
+  find: 1,
+  findOne: 1,
+  findOneAndDelete: 1,
+  findOneAndReplace: 2,
+  findOneAndUpdate: 2,
+  insertMany: 1,
+  insertOne: 1,
+  replaceOne: 2,
+  updateMany: 2,
+  updateOne: 2,
+};
+
+function sessionAwareCollection<T extends object>(collection: Collection<T>) {
+  return new Proxy(collection, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function" || typeof prop !== "string") {
+        return value;
+      }
+      const index = optionsIndex[prop];
+      if (index === undefined) return value.bind(target);
+      return (...args: unknown[]) => {
+        const session = currentSession();
+        if (session !== undefined) {
+          const options = args[index] as object | undefined;
+          args[index] = { ...options, session };
+        }
+        return value.apply(target, args);
+      };
+    },
+  });
+}
+
+/**
+ * Wraps a database so that collection operations of concepts join the
+ * transaction of the action they run in, without concepts passing sessions.
+ */
+export function sessionAware(db: Db): Db {
+  return new Proxy(db, {
+    get(target, prop, receiver) {
+      if (prop === "collection") {
+        return (...args: Parameters<Db["collection"]>) =>
+          sessionAwareCollection(target.collection(...args));
+      }
+      const value = Reflect.get(target, prop, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
@@ -1,4 +1,6 @@
 import { Frames } from "./frames.ts";
+import type { ActionRecord } from "./actions.ts";
+import type { AnyAction, Thrown } from "./patterns.ts";
 
 export type Mapping = Record<string, unknown>;
 export type Frame = Record<symbol, unknown>;
@@ -7,19 +9,72 @@ export type ActionFunction<TInput = Mapping, TOutput = Mapping> = (
   input: TInput,
 ) => TOutput;
 
-export type ActionList = [InstrumentedAction, Mapping, Mapping?];
-export interface ActionPattern {
-  action: InstrumentedAction;
-  concept: object;
+// Keys of every member of a union, such as `{ task: ID } | { error: string }`
+type KeysOf<T> = T extends unknown ? keyof T : never;
+
+/**
+ * Input and output of an action, inferred from its signature. Actions that
+ * are not precisely typed accept any fields.
+ */
+export type ActionInput<A> = A extends (input: infer I) => unknown ? I
+  : Mapping;
+export type ActionOutput<A> = A extends (...args: never[]) => infer O
+  ? Awaited<O>
+  : Mapping;
+
+/**
+ * Patterns may bind or match any subset of the fields of an action, but
+ * naming a field the action does not have is a type error.
+ */
+export type InputPattern<A> = { [K in KeysOf<ActionInput<A>>]?: unknown };
+export type OutputPattern<A> = { [K in KeysOf<ActionOutput<A>>]?: unknown };
+
+export type TypedActionList<A> = [
+  A,
+  InputPattern<A>,
+  (OutputPattern<A> | Thrown)?,
+];
+export type ActionList = TypedActionList<InstrumentedAction | AnyAction>;
+export type ActionPattern = ConcreteActionPattern | AnyActionPattern;
+interface PatternFields {
   input: Mapping;
   output?: Mapping;
+  thrown?: Mapping;
   flow: symbol;
 }
+export interface ConcreteActionPattern extends PatternFields {
+  action: InstrumentedAction;
+  concept: object;
+  any?: undefined;
+}
+// Matches any action satisfying the options, only allowed in `when`
+export interface AnyActionPattern extends PatternFields {
+  action?: undefined;
+  concept?: undefined;
+  any: AnyAction;
+}
+
+/**
+ * How the `then` actions of a sync are executed, across all frames:
+ * one after another in order (the default), all at once, or at most
+ * `concurrency` at a time. Inside a transaction they always run one after
+ * another, since the operations of a transaction cannot run concurrently.
+ */
+export type Execution = "sequential" | "concurrent" | { concurrency: number };
 
 interface SyncDeclaration {
   when: ActionPattern[];
   where?: (frames: Frames) => Frames | Promise<Frames>;
   then: ActionPattern[];
+  execution?: Execution;
+  // Run the `then` actions and everything they cause in one transaction,
+  // which any of them throwing or returning an `error` rolls back, and which
+  // then dispatches none of the later `then` actions
+  transactional?: boolean;
+  // Run the `then` only for frames whose `user` has the feature flag on
+  flag?: { name: string; user: symbol };
+  // Syncs with higher priorities run first for the same action, default 0
+  priority?: number;
 }
 
 export interface Synchronization extends SyncDeclaration {
@@ -36,3 +91,33 @@ export type Vars = Record<string, symbol>;
 export type SyncFunction = (vars: Vars) => SyncDeclaration;
 export type SyncFunctionMap = Record<string, SyncFunction>;
 export type Empty = Record<PropertyKey, never>;
+
+/**
+ * Emitted once every action of a flow, including those caused by
+ * synchronizations, has completed. `terminal` is the first terminal action
+ * (such as `Requesting.respond`) that occurred in the flow, if any.
+ */
+export interface FlowFinished {
+  flow: string;
+  reason: "terminal" | "quiescent";
+  terminal?: ActionRecord;
+  actions: ActionRecord[];
+  nearMisses: NearMiss[];
+  // The flow that scheduled the action this flow fired, if any
+  origin?: string;
+  // What the root action threw, if the flow failed, such as an error of a
+  // rolled back transaction
+  error?: unknown;
+}
+
+/**
+ * A sync that was considered in a flow but never fired: either only the
+ * first `matched` of its `when` patterns matched, or `where` left no frames.
+ */
+export interface NearMiss {
+  sync: string;
+  stage: "when" | "where";
+  matched: number;
+  of: number;
+}
+export type FlowListener = (event: FlowFinished) => void | Promise<void>;
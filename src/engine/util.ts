@@ -5,3 +5,28 @@ import { randomUUID } from "node:crypto";
 export function uuid() {
   return randomUUID();
 }
+
+/**
+ * Runs `task` on every item with at most `limit` running at once, in order
+ * of the items, settling once all have finished. A failed task stops only
+ * its own worker, and its error is rethrown once the others have finished.
+ */
+export async function runConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    worker,
+  );
+  const results = await Promise.allSettled(workers);
+  const failed = results.find((result) => result.status === "rejected");
+  if (failed !== undefined) throw failed.reason;
+}
@@ -0,0 +1,308 @@
+import { Optional } from "./patterns.ts";
+import { actionNames } from "./store.ts";
+import type {
+  ActionPattern,
+  AnyActionPattern,
+  InstrumentedAction,
+  Mapping,
+  Synchronization,
+} from "./types.ts";
+
+export interface ValidationIssue {
+  kind: "unbound" | "unresponded" | "unhandled" | "cycle";
+  severity: "error" | "warning";
+  message: string;
+  syncs: string[];
+}
+
+/**
+ * The dependency graph of synchronizations: an action flows into every sync
+ * that matches it in `when`, and a sync flows into the actions of its `then`.
+ */
+export interface SyncGraph {
+  actions: { id: string; concept: string; action: string }[];
+  syncs: { id: string }[];
+  // `match` edges lead from actions to the `anyAction()` patterns they match
+  edges: { from: string; to: string; kind: "when" | "then" | "match" }[];
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  graph: SyncGraph;
+}
+
+export interface ValidationOptions {
+  // The action that opens a request flow, such as `Requesting.request`
+  request?: InstrumentedAction;
+  // The action that answers a request, such as `Requesting.respond`
+  respond?: InstrumentedAction;
+  // Actions that are expected to only ever appear in `then`
+  terminal?: Iterable<InstrumentedAction>;
+}
+
+function patternNames(pattern: ActionPattern) {
+  if (pattern.any === undefined) return actionNames(pattern);
+  const { of } = pattern.any.options;
+  // Read the name through the prototype, which the instrumented proxy
+  // does not wrap
+  const concept = of === undefined
+    ? "*"
+    : Object.getPrototypeOf(of).constructor.name.replace(/Concept$/, "");
+  return { concept, action: "*" };
+}
+
+function actionId(pattern: ActionPattern) {
+  const { concept, action } = patternNames(pattern);
+  return `${concept}.${action}`;
+}
+
+function matchesAny(
+  pattern: AnyActionPattern,
+  { concept, action }: { concept: string; action: string },
+) {
+  const matched = patternNames(pattern);
+  if (matched.concept !== "*" && matched.concept !== concept) return false;
+  const { name } = pattern.any.options;
+  return name === undefined || name(action, concept);
+}
+
+// Variables a mapping binds, including those of optional fields
+function symbolsOf(mapping: Mapping | undefined): symbol[] {
+  if (mapping === undefined) return [];
+  return Object.values(mapping)
+    .map((v) => v instanceof Optional ? v.pattern : v)
+    .filter((v): v is symbol => typeof v === "symbol");
+}
+
+/**
+ * Variables a `where` clause may bind. Since `where` is an arbitrary
+ * function, a variable counts as possibly bound if its name occurs in the
+ * source of the function, which is where it would be passed to a query.
+ */
+function mentionedIn(where: Synchronization["where"], variable: symbol) {
+  if (where === undefined || variable.description === undefined) return false;
+  const name = variable.description.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${name}\\b`).test(where.toString());
+}
+
+function requestPath(sync: Synchronization, request?: InstrumentedAction) {
+  if (request === undefined) return undefined;
+  const pattern = sync.when.find((when) => when.action === request);
+  // Requests matched by a route template are handled by their route
+  const path = pattern?.input.path ?? pattern?.input.route;
+  return typeof path === "string" ? path : undefined;
+}
+
+export function buildGraph(syncs: Synchronization[]): SyncGraph {
+  const actions: Map<string, SyncGraph["actions"][number]> = new Map();
+  const edges: SyncGraph["edges"] = [];
+  const anyPatterns: Map<string, AnyActionPattern> = new Map();
+  const addAction = (pattern: ActionPattern) => {
+    const id = actionId(pattern);
+    if (!actions.has(id)) actions.set(id, { id, ...patternNames(pattern) });
+    if (pattern.any !== undefined) anyPatterns.set(id, pattern);
+    return id;
+  };
+  for (const sync of syncs) {
+    const whens = new Set(sync.when.map(addAction));
+    const thens = new Set(sync.then.map(addAction));
+    for (const from of whens) edges.push({ from, to: sync.sync, kind: "when" });
+    for (const to of thens) edges.push({ from: sync.sync, to, kind: "then" });
+  }
+  // Actions flow into the `anyAction()` patterns that match them
+  for (const action of actions.values()) {
+    if (anyPatterns.has(action.id)) continue;
+    for (const [id, pattern] of anyPatterns) {
+      if (matchesAny(pattern, action)) {
+        edges.push({ from: action.id, to: id, kind: "match" });
+      }
+    }
+  }
+  return {
+    actions: [...actions.values()],
+    syncs: syncs.map((sync) => ({ id: sync.sync })),
+    edges,
+  };
+}
+
+// Strongly connected components of the graph, by Tarjan's algorithm
+function components(graph: SyncGraph): string[][] {
+  const successors: Map<string, string[]> = new Map();
+  for (const { from, to } of graph.edges) {
+    successors.set(from, [...(successors.get(from) ?? []), to]);
+  }
+  const index: Map<string, number> = new Map();
+  const lowlink: Map<string, number> = new Map();
+  const stack: string[] = [];
+  const onStack: Set<string> = new Set();
+  const result: string[][] = [];
+  const visit = (node: string) => {
+    index.set(node, index.size);
+    lowlink.set(node, index.get(node) as number);
+    stack.push(node);
+    onStack.add(node);
+    for (const next of successors.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowlink.set(
+          node,
+          Math.min(lowlink.get(node) as number, lowlink.get(next) as number),
+        );
+      } else if (onStack.has(next)) {
+        lowlink.set(
+          node,
+          Math.min(lowlink.get(node) as number, index.get(next) as number),
+        );
+      }
+    }
+    if (lowlink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop() as string;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      result.push(component.reverse());
+    }
+  };
+  for (const node of [...graph.actions, ...graph.syncs].map((n) => n.id)) {
+    if (!index.has(node)) visit(node);
+  }
+  return result;
+}
+
+/**
+ * Statically checks a set of synchronizations for mistakes that would
+ * otherwise only show up as flows that silently never complete.
+ */
+export function validateSyncs(
+  syncs: Synchronization[],
+  options: ValidationOptions = {},
+): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const graph = buildGraph(syncs);
+
+  // Variables used in `then` that neither `when` nor `where` can bind
+  for (const sync of syncs) {
+    const bound = new Set(
+      sync.when.flatMap((when) => [
+        ...symbolsOf(when.input),
+        ...symbolsOf(when.output),
+        ...symbolsOf(when.thrown),
+      ]),
+    );
+    const unbound = new Set(
+      sync.then.flatMap((then) => symbolsOf(then.input))
+        .filter((v) => !bound.has(v) && !mentionedIn(sync.where, v))
+        .map((v) => v.description),
+    );
+    for (const name of unbound) {
+      issues.push({
+        kind: "unbound",
+        severity: "error",
+        message:
+          `${sync.sync}: \`then\` uses ${name}, which is never bound by \`when\` or \`where\``,
+        syncs: [sync.sync],
+      });
+    }
+  }
+
+  // Request paths that no synchronization ever responds to
+  const { request, respond } = options;
+  if (request !== undefined && respond !== undefined) {
+    const handlers: Map<string, string[]> = new Map();
+    const responded: Set<string> = new Set();
+    for (const sync of syncs) {
+      const path = requestPath(sync, request);
+      if (path === undefined) continue;
+      handlers.set(path, [...(handlers.get(path) ?? []), sync.sync]);
+      if (sync.then.some((then) => then.action === respond)) {
+        responded.add(path);
+      }
+    }
+    for (const [path, names] of handlers) {
+      if (responded.has(path)) continue;
+      issues.push({
+        kind: "unresponded",
+        severity: "error",
+        message: `${path} is handled by ${
+          names.join(", ")
+        }, but no synchronization responds to it`,
+        syncs: names,
+      });
+    }
+  }
+
+  // Actions caused by synchronizations that nothing reacts to
+  const terminal = new Set(
+    [...(options.terminal ?? [])].map((action) => {
+      const names = actionNames({ action, concept: action.concept as object });
+      return `${names.concept}.${names.action}`;
+    }),
+  );
+  const matched = new Set(
+    graph.edges.filter((e) => e.kind !== "then").map((e) => e.from),
+  );
+  for (const action of graph.actions) {
+    if (matched.has(action.id) || terminal.has(action.id)) continue;
+    const causes = graph.edges.filter((e) => e.to === action.id)
+      .map((e) => e.from);
+    issues.push({
+      kind: "unhandled",
+      severity: "warning",
+      message: `${action.id} appears in \`then\` of ${
+        causes.join(", ")
+      } but in no \`when\``,
+      syncs: causes,
+    });
+  }
+
+  // Cycles between syncs, which may cause a flow to never finish
+  const syncIds = new Set(graph.syncs.map((s) => s.id));
+  for (const component of components(graph)) {
+    // Edges alternate between actions and syncs, so no node loops to itself
+    if (component.length === 1) continue;
+    const names = component.filter((id) => syncIds.has(id));
+    issues.push({
+      kind: "cycle",
+      severity: "warning",
+      message: `Cycle through ${component.join(" -> ")}`,
+      syncs: names,
+    });
+  }
+
+  return { issues, graph };
+}
+
+/**
+ * Renders the graph in Graphviz DOT, with actions as boxes grouped by
+ * concept and syncs as ellipses.
+ */
+export function toDot(graph: SyncGraph): string {
+  const quote = (id: string) => JSON.stringify(id);
+  const lines = ["digraph syncs {", "  rankdir=LR;"];
+  const concepts = new Set(graph.actions.map((a) => a.concept));
+  for (const concept of concepts) {
+    lines.push(`  subgraph ${quote(`cluster_${concept}`)} {`);
+    lines.push(`    label=${quote(concept)};`);
+    for (const action of graph.actions.filter((a) => a.concept === concept)) {
+      lines.push(
+        `    ${quote(action.id)} [shape=box, label=${quote(action.action)}];`,
+      );
+    }
+    lines.push("  }");
+  }
+  for (const sync of graph.syncs) {
+    lines.push(`  ${quote(sync.id)} [shape=ellipse];`);
+  }
+  for (const edge of graph.edges) {
+    const style =
+      { when: "", then: " [style=dashed]", match: " [style=dotted]" }[
+        edge.kind
+      ];
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${style};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
@@ -9,9 +9,21 @@ import * as concepts from "@concepts";
 // import * as concepts from "@test-concepts";
 
 const { Engine } = concepts;
-import { Logging } from "@engine";
-import { startRequestingServer } from "@concepts/Requesting/RequestingConcept.ts";
-import syncs from "@syncs";
+import {
+  JsonLinesExporter,
+  Logging,
+  MongoActionStore,
+  type NearMiss,
+  OtlpExporter,
+} from "@engine";
+import {
+  startRequestingServer,
+  type UnmatchedResponse,
+} from "@concepts/Requesting/RequestingConcept.ts";
+import { startTimers } from "@concepts/Timer/TimerConcept.ts";
+import syncs, { schemas } from "@syncs";
+import { setupEngine } from "@utils/engine_setup.ts";
+import { watchAndReload } from "@utils/hot_reload.ts";
 
 /**
  * Available logging levels:
@@ -21,8 +33,57 @@ import syncs from "@syncs";
  */
 Engine.logging = Logging.TRACE;
 
+/**
+ * Each flow is traced, with a span for every action, `where` and `then`:
+ *   TRACE_FILE - append spans to this file as JSON lines.
+ *   OTEL_EXPORTER_OTLP_ENDPOINT - send spans to an OpenTelemetry collector,
+ *     such as http://localhost:4318.
+ */
+const TRACE_FILE = Deno.env.get("TRACE_FILE");
+if (TRACE_FILE) Engine.tracer.addExporter(new JsonLinesExporter(TRACE_FILE));
+const OTLP_ENDPOINT = Deno.env.get("OTEL_EXPORTER_OTLP_ENDPOINT");
+if (OTLP_ENDPOINT) {
+  Engine.tracer.addExporter(new OtlpExporter({ endpoint: OTLP_ENDPOINT }));
+}
+
+/**
+ * Action records are written to MongoDB in the background for auditing,
+ * without delaying the actions, while at most `maxRecords` of the most
+ * recently finished flows, besides those running, are kept in memory.
+ * Passwords, sessions and other credentials are redacted from the persisted
+ * log, which expires after `expireAfterSeconds`.
+ */
+Engine.Action.store = new MongoActionStore(concepts.db, {
+  retention: { maxRecords: 10_000, maxAge: 60 * 60 * 1000 },
+  expireAfterSeconds: 30 * 24 * 60 * 60,
+});
+
+// Requests conclude with their responses, and `later` thens become timers
+setupEngine(concepts);
+
 // Register synchronizations
 Engine.register(syncs);
 
+/**
+ * Requests that no synchronization responds to are answered as soon as their
+ * flow finishes. When a session was given but a sync's `where` rejected it,
+ * the session is most likely invalid, so reply with 401 instead of 404.
+ */
+const unmatched = (
+  input: { path: string; [key: string]: unknown },
+  nearMisses: NearMiss[],
+): UnmatchedResponse =>
+  "session" in input && nearMisses.some((miss) => miss.stage === "where")
+    ? { status: 401, error: "Invalid or expired session." }
+    : { status: 404, error: `No synchronization responded to ${input.path}` };
+
 // Start a server to provide the Requesting concept with external/system actions.
-startRequestingServer(concepts);
+startRequestingServer(concepts, { unmatched, schemas });
+
+// Fire scheduled actions as they come due, including those missed while down
+startTimers(concepts);
+
+// With `deno task dev`, apply changes to syncs and concepts as they are saved
+if (Deno.args.includes("--dev")) {
+  watchAndReload(concepts, syncs, schemas);
+}
@@ -1,4 +1,4 @@
-import { actions, Sync } from "@engine";
+import { absent, actions, later, Sync } from "@engine";
 import {
   Focus,
   Planner,
@@ -60,6 +60,22 @@ export const LoginSessionCreation: Sync = ({ user }) => ({
   then: actions([Sessioning.create, { user }]),
 });
 
+// Sessions are deleted this long after they are created
+const SESSION_LIFETIME = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * @sync SessionExpiry
+ * @when a session is created
+ * @then delete it once its lifetime has passed, even if the server restarted
+ */
+export const SessionExpiry: Sync = ({ session }) => ({
+  when: actions([Sessioning.create, {}, { session }]),
+  then: actions([
+    later(Sessioning.delete, { delay: SESSION_LIFETIME, key: session }),
+    { session },
+  ]),
+});
+
 /**
  * @sync LoginResponse
  * @when a login request leads to successful authentication and session creation
@@ -77,14 +93,14 @@ export const LoginResponse: Sync = ({ request, user, session }) => ({
 /**
  * @sync LoginError
  * @when UserAccount.login fails
- * @then respond with the error
+ * @then respond with the error, as unauthorized
  */
 export const LoginError: Sync = ({ request, error }) => ({
   when: actions(
     [Requesting.request, { path: "/UserAccount/login" }, { request }],
     [UserAccount.login, {}, { error }],
   ),
-  then: actions([Requesting.respond, { request, error }]),
+  then: actions([Requesting.respond, { request, error, statusCode: 401 }]),
 });
 
 /**
@@ -159,7 +175,9 @@ export const GetUserProfile: Sync = (
     frames = await frames.query(Sessioning._getUser, { session }, { user });
     if (frames.length === 0) return frames; // Unauthorized - request will timeout
     // Query returns an array: [{ displayName, email }]
-    return await frames.query(UserAccount._getUserProfile, { user }, { profile });
+    return await frames.query(UserAccount._getUserProfile, { user }, {
+      profile,
+    });
   },
   then: actions([Requesting.respond, { request, profile }]),
 });
@@ -309,8 +327,8 @@ export const GetWorkingHours: Sync = (
 /**
  * =============================================================================
  * DELETE ACCOUNT
- * Deletes the user's account and their session. This should cascade to delete
- * all user data from other concepts (handled by separate syncs).
+ * Deletes the user's data from other concepts, their session and then their
+ * account, in one transaction, so that they are deleted as a unit.
  * =============================================================================
  */
 
@@ -318,7 +336,12 @@ export const GetWorkingHours: Sync = (
  * @sync DeleteAccountRequest
  * @when a request is made to delete account with a session token
  * @where the session is valid
- * @then delete the user's account
+ * @then delete the user's tasks, schedule slots and planner data, clear their
+ * focus task, delete the session and finally the account, one after another,
+ * as the operations of a transaction cannot run concurrently. The transaction
+ * is rolled back if any of them fails, and the actions after the failed one
+ * are skipped, so the account is only deleted, and reported as deleted, once
+ * all of its data is.
  */
 export const DeleteAccountRequest: Sync = ({ request, session, user }) => ({
   when: actions([
@@ -330,68 +353,15 @@ export const DeleteAccountRequest: Sync = ({ request, session, user }) => ({
     frames = await frames.query(Sessioning._getUser, { session }, { user });
     return frames;
   },
-  then: actions([UserAccount.deleteAccount, { user }]),
-});
-
-/**
- * @sync DeleteAccountTasksCleanup
- * @when a user account is successfully deleted
- * @then delete all tasks associated with that user
- */
-export const DeleteAccountTasksCleanup: Sync = ({ user }) => ({
-  when: actions(
-    [UserAccount.deleteAccount, { user }, {}],
-  ),
-  then: actions([Tasks.deleteAllForUser, { user }]),
-});
-
-/**
- * @sync DeleteAccountScheduleCleanup
- * @when a user account is successfully deleted
- * @then delete all schedule slots associated with that user
- */
-export const DeleteAccountScheduleCleanup: Sync = ({ user }) => ({
-  when: actions(
-    [UserAccount.deleteAccount, { user }, {}],
+  then: actions(
+    [Tasks.deleteAllForUser, { user }],
+    [Schedule.deleteAllForUser, { user }],
+    [Planner.deleteAllForUser, { user }],
+    [Focus.clearCurrentTask, { user }],
+    [Sessioning.delete, { session }],
+    [UserAccount.deleteAccount, { user }],
   ),
-  then: actions([Schedule.deleteAllForUser, { user }]),
-});
-
-/**
- * @sync DeleteAccountPlannerCleanup
- * @when a user account is successfully deleted
- * @then delete all planner data associated with that user
- */
-export const DeleteAccountPlannerCleanup: Sync = ({ user }) => ({
-  when: actions(
-    [UserAccount.deleteAccount, { user }, {}],
-  ),
-  then: actions([Planner.deleteAllForUser, { user }]),
-});
-
-/**
- * @sync DeleteAccountFocusCleanup
- * @when a user account is successfully deleted
- * @then clear the focus task for that user
- */
-export const DeleteAccountFocusCleanup: Sync = ({ user }) => ({
-  when: actions(
-    [UserAccount.deleteAccount, { user }, {}],
-  ),
-  then: actions([Focus.clearCurrentTask, { user }]),
-});
-
-/**
- * @sync DeleteAccountSessionCleanup
- * @when a user account is successfully deleted from a request with a session
- * @then delete that session
- */
-export const DeleteAccountSessionCleanup: Sync = ({ session }) => ({
-  when: actions(
-    [Requesting.request, { path: "/UserAccount/deleteAccount", session }, {}],
-    [UserAccount.deleteAccount, {}, {}],
-  ),
-  then: actions([Sessioning.delete, { session }]),
+  transactional: true,
 });
 
 /**
@@ -402,7 +372,7 @@ export const DeleteAccountSessionCleanup: Sync = ({ session }) => ({
 export const DeleteAccountResponse: Sync = ({ request }) => ({
   when: actions(
     [Requesting.request, { path: "/UserAccount/deleteAccount" }, { request }],
-    [UserAccount.deleteAccount, {}, {}],
+    [UserAccount.deleteAccount, {}, { error: absent() }],
   ),
   then: actions([Requesting.respond, { request, status: "account_deleted" }]),
 });
@@ -0,0 +1,171 @@
+import { assertEquals, assertExists, assertRejects } from "jsr:@std/assert";
+import { TransactionAbortedError } from "@engine";
+import { testSyncs } from "@utils/sync_testing.ts";
+import { ID } from "@utils/types.ts";
+
+const alice = {
+  email: "alice@example.com",
+  password: "password123",
+  displayName: "Alice",
+};
+
+Deno.test("Login responds with a new session", async () => {
+  const app = await testSyncs("auth.*");
+  const { UserAccount, Sessioning } = app.concepts;
+  await UserAccount.register(alice);
+
+  const flow = await app.request("/UserAccount/login", {
+    email: alice.email,
+    password: alice.password,
+  });
+  assertExists(flow.response?.session);
+  assertEquals(flow.fired, [
+    "auth.LoginRequest",
+    "auth.LoginSessionCreation",
+    "auth.LoginResponse",
+    "auth.SessionExpiry",
+  ]);
+  assertEquals(flow.trace, [
+    "Requesting.request",
+    "UserAccount.login",
+    "Sessioning.create",
+    "Requesting.respond",
+    "Timer.schedule",
+  ]);
+  const [found] = await Sessioning._getUser({
+    session: flow.response?.session as ID,
+  });
+  assertExists((found as { user: ID }).user);
+  // The expiry is keyed by the session, so it can be found and replaced
+  const [expiry] = await app.concepts.Timer._getTimer({
+    key: flow.response?.session as string,
+  });
+  assertEquals(expiry?.action, "Sessioning.delete");
+});
+
+Deno.test("Login with a wrong password responds with the error", async () => {
+  const app = await testSyncs("auth.*");
+  await app.concepts.UserAccount.register(alice);
+
+  const flow = await app.request("/UserAccount/login", {
+    email: alice.email,
+    password: "wrong",
+  });
+  assertEquals(flow.response, { error: "Invalid credentials." });
+  assertEquals(flow.statusCode, 401);
+  assertEquals(flow.fired, ["auth.LoginRequest", "auth.LoginError"]);
+});
+
+Deno.test("Only the enabled syncs fire", async () => {
+  const app = await testSyncs("auth.LoginRequest");
+  await app.concepts.UserAccount.register(alice);
+
+  const flow = await app.request("/UserAccount/login", {
+    email: alice.email,
+    password: alice.password,
+  });
+  assertEquals(flow.response, undefined);
+  assertEquals(flow.trace, ["Requesting.request", "UserAccount.login"]);
+  // The database starts empty for each test
+  const again = await testSyncs("auth.*");
+  const login = await again.request("/UserAccount/login", {
+    email: alice.email,
+    password: alice.password,
+  });
+  assertEquals(login.response, { error: "Invalid credentials." });
+});
+
+Deno.test("Logout with an unknown session responds with the error", async () => {
+  const app = await testSyncs("auth.*");
+  const flow = await app.request("/UserAccount/logout", {
+    session: "session:missing",
+  });
+  assertEquals(flow.response, {
+    error: "Session with id session:missing not found",
+  });
+  assertEquals(flow.fired, ["auth.LogoutRequest", "auth.LogoutError"]);
+});
+
+Deno.test("Queries of concepts can be replaced by fakes", async () => {
+  const app = await testSyncs("auth.GetUserProfile");
+  const { user } = await app.concepts.UserAccount.register(alice) as {
+    user: ID;
+  };
+  app.fake("Sessioning", {
+    _getUser: ({ session }: { session: ID }) =>
+      session === "session:fake" ? [{ user }] : [],
+  });
+
+  const flow = await app.request("/UserAccount/_getUserProfile", {
+    session: "session:fake",
+  });
+  assertEquals(flow.response, {
+    profile: { displayName: "Alice", email: alice.email },
+  });
+  assertEquals(flow.fired, ["auth.GetUserProfile"]);
+});
+
+async function withTask() {
+  const app = await testSyncs("auth.*");
+  const { user } = await app.concepts.UserAccount.register(alice) as {
+    user: ID;
+  };
+  await app.concepts.Tasks.createTask({ owner: user, title: "Write report" });
+  const { response } = await app.request("/UserAccount/login", {
+    email: alice.email,
+    password: alice.password,
+  });
+  return { app, user, session: response?.session };
+}
+
+Deno.test("Deleting an account cleans up its data before responding", async () => {
+  const { app, user, session } = await withTask();
+
+  const flow = await app.request("/UserAccount/deleteAccount", { session });
+  assertEquals(flow.response, { status: "account_deleted" });
+  assertEquals(flow.fired, [
+    "auth.DeleteAccountRequest",
+    "auth.DeleteAccountResponse",
+  ]);
+  assertEquals(flow.trace.slice(-2), [
+    "UserAccount.deleteAccount",
+    "Requesting.respond",
+  ]);
+  assertEquals(await app.concepts.Tasks._getTasks({ user }), [{ tasks: [] }]);
+  assertEquals(await app.concepts.UserAccount._getUserProfile({ user }), []);
+});
+
+Deno.test("An account without tasks can be deleted", async () => {
+  const app = await testSyncs("auth.*");
+  await app.concepts.UserAccount.register(alice);
+  const { response } = await app.request("/UserAccount/login", {
+    email: alice.email,
+    password: alice.password,
+  });
+
+  const flow = await app.request("/UserAccount/deleteAccount", {
+    session: response?.session,
+  });
+  assertEquals(flow.response, { status: "account_deleted" });
+});
+
+Deno.test("A failed account cleanup is rolled back without responding", async () => {
+  const { app, user, session } = await withTask();
+  app.fake("Schedule", {
+    deleteAllForUser: () => ({ error: "The schedule is unavailable." }),
+  });
+
+  await assertRejects(
+    () => app.request("/UserAccount/deleteAccount", { session }),
+    TransactionAbortedError,
+  );
+  const [{ tasks }] = await app.concepts.Tasks._getTasks({ user });
+  assertEquals(tasks.map(({ title }) => title), ["Write report"]);
+  // The account and its session remain, as they are deleted last
+  const [profile] = await app.concepts.UserAccount._getUserProfile({ user });
+  assertEquals(profile.profile.email, alice.email);
+  const [found] = await app.concepts.Sessioning._getUser({
+    session: session as ID,
+  });
+  assertEquals((found as { user: ID }).user, user);
+});
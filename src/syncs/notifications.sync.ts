@@ -0,0 +1,65 @@
+import { absent, actions, Sync } from "@engine";
+import {
+  Focus,
+  Notifying,
+  Requesting,
+  Schedule,
+  Sessioning,
+  Tasks,
+} from "@concepts";
+
+/**
+ * =============================================================================
+ * NOTIFICATIONS - Keeping every open client of a user up to date
+ * Each change is pushed to the user's connections, so that other tabs and
+ * devices refresh without polling.
+ * =============================================================================
+ */
+
+/**
+ * @sync TaskCreatedNotification
+ * @when a task is created
+ * @then push a "taskCreated" event to its owner
+ */
+export const TaskCreatedNotification: Sync = ({ owner, task }) => ({
+  when: actions([Tasks.createTask, { owner }, { task }]),
+  then: actions([
+    Notifying.push,
+    { user: owner, event: "taskCreated", task },
+  ]),
+});
+
+/**
+ * @sync TaskCompletedNotification
+ * @when a task is marked complete without an error
+ * @where the session is valid
+ * @then push a "taskCompleted" event to the user
+ */
+export const TaskCompletedNotification: Sync = ({ session, user, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tasks/markTaskComplete", session }, {}],
+    [Tasks.markTaskComplete, { task }, { error: absent() }],
+  ),
+  where: (frames) => frames.query(Sessioning._getUser, { session }, { user }),
+  then: actions([Notifying.push, { user, event: "taskCompleted", task }]),
+});
+
+/**
+ * @sync FocusChangedNotification
+ * @when the user's current task is set
+ * @then push a "focusChanged" event to the user
+ */
+export const FocusChangedNotification: Sync = ({ user, task }) => ({
+  when: actions([Focus.setCurrentTask, { user, task }, {}]),
+  then: actions([Notifying.push, { user, event: "focusChanged", task }]),
+});
+
+/**
+ * @sync CalendarSyncedNotification
+ * @when the user's external calendar is synced without an error
+ * @then push a "calendarSynced" event to the user
+ */
+export const CalendarSyncedNotification: Sync = ({ user }) => ({
+  when: actions([Schedule.syncCalendar, { user }, { error: absent() }]),
+  then: actions([Notifying.push, { user, event: "calendarSynced" }]),
+});
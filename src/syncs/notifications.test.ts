@@ -0,0 +1,77 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testSyncs } from "@utils/sync_testing.ts";
+import { socket } from "@concepts/Notifying/NotifyingConcept.ts";
+import { ID } from "@utils/types.ts";
+
+// An open tab of the app, keeping the events pushed to it
+function tab() {
+  const fake = {
+    readyState: 1,
+    events: [] as Record<string, unknown>[],
+    send: (data: string) => fake.events.push(JSON.parse(data)),
+    close: () => {
+      fake.readyState = 3;
+    },
+  };
+  return fake;
+}
+
+async function loggedIn(...patterns: string[]) {
+  const app = await testSyncs("auth.*", ...patterns);
+  const credentials = { email: "dave@example.com", password: "password123" };
+  const { user } = await app.concepts.UserAccount.register({
+    ...credentials,
+    displayName: "Dave",
+  }) as { user: ID };
+  const { response } = await app.request("/UserAccount/login", credentials);
+  return { app, user, session: response?.session };
+}
+
+const task = {
+  title: "Write report",
+  description: "Quarterly numbers",
+  dueDate: "2025-03-07",
+  estimatedDuration: 60,
+};
+
+Deno.test("Every open tab is told about a created task", async () => {
+  const { app, user, session } = await loggedIn("tasks.*", "notifications.*");
+  const [first, second] = [tab(), tab()];
+  await app.concepts.Notifying.connect({ user, [socket]: first });
+  await app.concepts.Notifying.connect({ user, [socket]: second });
+
+  const created = await app.request("/Tasks/createTask", { session, ...task });
+  assertEquals(created.fired, [
+    "tasks.CreateTaskRequest",
+    "notifications.TaskCreatedNotification",
+    "tasks.CreateTaskResponse",
+  ]);
+  const pushed = [{ event: "taskCreated", task: created.response?.task }];
+  assertEquals(first.events, pushed);
+  assertEquals(second.events, pushed);
+});
+
+Deno.test("Completing a task is pushed to the user", async () => {
+  const { app, user, session } = await loggedIn("tasks.*", "notifications.*");
+  const created = await app.request("/Tasks/createTask", { session, ...task });
+  const open = tab();
+  await app.concepts.Notifying.connect({ user, [socket]: open });
+
+  await app.request("/Tasks/markTaskComplete", {
+    session,
+    task: created.response?.task,
+  });
+  assertEquals(open.events[0], {
+    event: "taskCompleted",
+    task: created.response?.task,
+  });
+});
+
+Deno.test("Changing the focus is pushed to the user", async () => {
+  const { app, user, session } = await loggedIn("focus.*", "notifications.*");
+  const open = tab();
+  await app.concepts.Notifying.connect({ user, [socket]: open });
+
+  await app.request("/Focus/setCurrentTask", { session, task: "task:1" });
+  assertEquals(open.events, [{ event: "focusChanged", task: "task:1" }]);
+});
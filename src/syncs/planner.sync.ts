@@ -1,5 +1,26 @@
-import { actions, Sync } from "@engine";
+import { absent, actions, optional, Sync, thrown } from "@engine";
 import { Focus, Planner, Requesting, Sessioning } from "@concepts";
+import type { RequestSchemas, Schema } from "@concepts/Requesting/schemas.ts";
+
+// The tasks to plan with their durations in minutes, around the busy slots
+const plan: Schema = {
+  tasks: {
+    type: "array",
+    items: { type: "object", fields: { id: "string", duration: "number" } },
+  },
+  busySlots: {
+    type: "array",
+    items: { type: "object", fields: { start: "date", end: "date" } },
+  },
+};
+
+/**
+ * The inputs of Planner requests.
+ */
+export const schemas: RequestSchemas = {
+  "/Planner/planDay": plan,
+  "/Planner/replan": plan,
+};
 
 /**
  * =============================================================================
@@ -52,7 +73,7 @@ export const PlanDayRequest: Sync = (
 export const PlanDayResponse: Sync = ({ request, firstTask }) => ({
   when: actions(
     [Requesting.request, { path: "/Planner/planDay" }, { request }],
-    [Planner.planDay, {}, { firstTask }],
+    [Planner.planDay, {}, { firstTask: optional(firstTask), error: absent() }],
   ),
   then: actions([Requesting.respond, { request, firstTask }]),
 });
@@ -65,19 +86,80 @@ export const PlanDayError: Sync = ({ request, error }) => ({
   then: actions([Requesting.respond, { request, error }]),
 });
 
+/**
+ * @sync PlanDayFailed
+ * @when planDay throws instead of returning a result
+ * @then respond with a server error rather than timing out, without
+ *   revealing the exception, which is logged instead
+ */
+export const PlanDayFailed: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Planner/planDay" }, { request }],
+    [Planner.planDay, {}, thrown()],
+  ),
+  then: actions([
+    Requesting.respond,
+    { request, error: "Failed to plan the day.", statusCode: 500 },
+  ]),
+});
+
 /**
  * @sync PlanDaySetFocus
  * @when planDay succeeds and returns a firstTask
  * @then automatically set that task as the current focus
+ * @flag plan-day-focus, to roll out the behavior gradually
  */
 export const PlanDaySetFocus: Sync = ({ user, firstTask }) => ({
   when: actions(
     [Requesting.request, { path: "/Planner/planDay" }, {}],
     [Planner.planDay, { user }, { firstTask }],
   ),
+  flag: { name: "plan-day-focus", user },
   then: actions([Focus.setCurrentTask, { user, task: firstTask }]),
 });
 
+// --- DAY PLAN PROGRESS ---
+// A planDay request accepting Server-Sent Events also receives the progress
+// of its flow as events, instead of polling for the current task.
+
+/**
+ * @sync PlanDayProgress
+ * @when a streaming planDay request schedules the tasks
+ * @then emit the scheduled tasks as a "planned" event
+ */
+export const PlanDayProgress: Sync = ({ request, user, tasks }) => ({
+  when: actions(
+    [
+      Requesting.request,
+      { path: "/Planner/planDay", stream: true },
+      { request },
+    ],
+    [Planner.planDay, { user }, { error: absent() }],
+  ),
+  // Before the response, which the client may take as the end
+  priority: 1,
+  where: (frames) =>
+    frames.query(Planner._getScheduledTasks, { user }, { tasks }),
+  then: actions([Requesting.emit, { request, event: "planned", tasks }]),
+});
+
+/**
+ * @sync PlanDayFocusProgress
+ * @when the focus changes in the flow of a streaming planDay request
+ * @then emit the task focused on as a "focus" event
+ */
+export const PlanDayFocusProgress: Sync = ({ request, task }) => ({
+  when: actions(
+    [
+      Requesting.request,
+      { path: "/Planner/planDay", stream: true },
+      { request },
+    ],
+    [Focus.setCurrentTask, { task }, {}],
+  ),
+  then: actions([Requesting.emit, { request, event: "focus", task }]),
+});
+
 // --- REPLAN ---
 
 export const ReplanRequest: Sync = (
@@ -96,7 +178,7 @@ export const ReplanRequest: Sync = (
 export const ReplanResponse: Sync = ({ request, firstTask }) => ({
   when: actions(
     [Requesting.request, { path: "/Planner/replan" }, { request }],
-    [Planner.replan, {}, { firstTask }],
+    [Planner.replan, {}, { firstTask: optional(firstTask), error: absent() }],
   ),
   then: actions([Requesting.respond, { request, firstTask }]),
 });
@@ -109,6 +191,23 @@ export const ReplanError: Sync = ({ request, error }) => ({
   then: actions([Requesting.respond, { request, error }]),
 });
 
+/**
+ * @sync ReplanFailed
+ * @when replan throws instead of returning a result
+ * @then respond with a server error rather than timing out, without
+ *   revealing the exception, which is logged instead
+ */
+export const ReplanFailed: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Planner/replan" }, { request }],
+    [Planner.replan, {}, thrown()],
+  ),
+  then: actions([
+    Requesting.respond,
+    { request, error: "Failed to replan the day.", statusCode: 500 },
+  ]),
+});
+
 /**
  * @sync ReplanSetFocus
  * @when replan succeeds and returns a firstTask
@@ -173,4 +272,3 @@ export const GetNextTaskError: Sync = ({ request, error }) => ({
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
-
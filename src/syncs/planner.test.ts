@@ -0,0 +1,88 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testSyncs } from "@utils/sync_testing.ts";
+
+async function loggedIn(...patterns: string[]) {
+  const app = await testSyncs("auth.*", ...patterns);
+  const credentials = { email: "carol@example.com", password: "password123" };
+  await app.concepts.UserAccount.register({
+    ...credentials,
+    displayName: "Carol",
+  });
+  const { response } = await app.request("/UserAccount/login", credentials);
+  return { app, session: response?.session };
+}
+
+const tasks = [{ id: "task:report", duration: 30 }];
+
+// Plans the day the same way whatever the time of day the tests run at
+const planner = {
+  planDay: () => ({ firstTask: "task:report" }),
+  _getScheduledTasks: () => [{ tasks: [{ task: "task:report" }] }],
+};
+
+Deno.test("A streaming day plan emits its progress", async () => {
+  const { app, session } = await loggedIn("planner.*");
+  app.fake("Planner", planner);
+
+  const flow = await app.request("/Planner/planDay", {
+    session,
+    tasks,
+    busySlots: [],
+    stream: true,
+  });
+  assertEquals(flow.events?.map(({ event }) => event), [
+    "planned",
+    "response",
+    "focus",
+  ]);
+  const [planned, , focus] = flow.events ?? [];
+  assertEquals(planned.data, { tasks: [{ task: "task:report" }] });
+  assertEquals(focus.data, { task: "task:report" });
+  assertEquals(flow.response, { firstTask: "task:report" });
+});
+
+Deno.test("A day plan without streaming emits nothing", async () => {
+  const { app, session } = await loggedIn("planner.*");
+  app.fake("Planner", planner);
+
+  const flow = await app.request("/Planner/planDay", {
+    session,
+    tasks,
+    busySlots: [],
+  });
+  assertEquals(flow.events, undefined);
+  assertEquals(flow.fired.includes("planner.PlanDayProgress"), false);
+  assertEquals(flow.response, { firstTask: "task:report" });
+});
+
+Deno.test("Planning rejects tasks without a numeric duration", async () => {
+  const { app, session } = await loggedIn("planner.*");
+
+  const flow = await app.request("/Planner/planDay", {
+    session,
+    tasks: [{ id: "task:report", duration: "half an hour" }],
+    busySlots: [{ start: "2025-03-07T09:00:00Z", end: "tomorrow" }],
+  });
+  assertEquals(flow.statusCode, 400);
+  assertEquals(flow.response?.errors, [
+    { field: "tasks[0].duration", error: "must be a number" },
+    { field: "busySlots[0].end", error: "must be an ISO date" },
+  ]);
+});
+
+Deno.test("A failed day plan is a server error that hides the exception", async () => {
+  const { app, session } = await loggedIn("planner.*");
+  app.fake("Planner", {
+    planDay: () => {
+      throw new Error("connection string mongodb://admin:secret@db");
+    },
+  });
+
+  const flow = await app.request("/Planner/planDay", {
+    session,
+    tasks,
+    busySlots: [],
+  });
+  assertEquals(flow.statusCode, 500);
+  assertEquals(flow.response, { error: "Failed to plan the day." });
+});
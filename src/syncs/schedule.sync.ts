@@ -1,5 +1,23 @@
 import { actions, Sync } from "@engine";
 import { Requesting, Schedule, Sessioning } from "@concepts";
+import type { RequestSchemas } from "@concepts/Requesting/schemas.ts";
+
+/**
+ * The inputs of Schedule requests, whose times arrive as ISO strings and are
+ * compared as dates.
+ */
+export const schemas: RequestSchemas = {
+  "/Schedule/blockTime": {
+    startTime: "date",
+    endTime: "date",
+    description: { type: "string", optional: true },
+  },
+  "/Schedule/updateSlot": {
+    startTime: "date",
+    endTime: "date",
+    description: { type: "string", optional: true },
+  },
+};
 
 /**
  * =============================================================================
@@ -1,5 +1,22 @@
-import { actions, Sync } from "@engine";
+import { absent, actions, Sync } from "@engine";
 import { Focus, Planner, Requesting, Sessioning, Tasks } from "@concepts";
+import type { RequestSchemas } from "@concepts/Requesting/schemas.ts";
+
+/**
+ * The inputs of Tasks requests: due dates are stored as dates, and durations
+ * as numbers of minutes.
+ */
+export const schemas: RequestSchemas = {
+  "/Tasks/createTask": {
+    title: "string",
+    dueDate: { type: "date", optional: true },
+    estimatedDuration: { type: "number", optional: true },
+  },
+  "/Tasks/updateTask": {
+    newDueDate: { type: "date", optional: true },
+    newEstimatedDuration: { type: "number", optional: true },
+  },
+};
 
 /**
  * =============================================================================
@@ -203,7 +220,7 @@ export const MarkTaskCompleteRequest: Sync = (
 export const MarkTaskCompleteResponse: Sync = ({ request }) => ({
   when: actions(
     [Requesting.request, { path: "/Tasks/markTaskComplete" }, { request }],
-    [Tasks.markTaskComplete, {}, {}],
+    [Tasks.markTaskComplete, {}, { error: absent() }],
   ),
   then: actions([Requesting.respond, { request, status: "ok" }]),
 });
@@ -218,22 +235,17 @@ export const MarkTaskCompleteError: Sync = ({ request, error }) => ({
 
 /**
  * @sync MarkCompleteGetNextTask
- * @when a task is marked complete
+ * @when a task is marked complete without an error
+ * @where the session is valid
  * @then get the next scheduled task from the planner
  */
-export const MarkCompleteGetNextTask: Sync = (
-  { user, task, nextTask },
-) => ({
+export const MarkCompleteGetNextTask: Sync = ({ session, user, task }) => ({
   when: actions(
-    [
-      Requesting.request,
-      { path: "/Tasks/markTaskComplete", session: user },
-      {},
-    ],
-    [Tasks.markTaskComplete, { task }, {}],
+    [Requesting.request, { path: "/Tasks/markTaskComplete", session }, {}],
+    [Tasks.markTaskComplete, { task }, { error: absent() }],
   ),
   where: async (frames) =>
-    frames.query(Sessioning._getUser, { session: user }, { user }),
+    frames.query(Sessioning._getUser, { session }, { user }),
   then: actions([Planner.getNextTask, { user, completedTask: task }]),
 });
 
@@ -241,12 +253,14 @@ export const MarkCompleteGetNextTask: Sync = (
  * @sync MarkCompleteSetNextFocus
  * @when we get the next task after marking one complete
  * @then set that next task as the current focus
+ * @flag next-task-focus, to roll out the behavior gradually
  */
 export const MarkCompleteSetNextFocus: Sync = ({ user, nextTask }) => ({
   when: actions(
     [Tasks.markTaskComplete, {}, {}],
     [Planner.getNextTask, { user }, { nextTask }],
   ),
+  flag: { name: "next-task-focus", user },
   then: actions([Focus.setCurrentTask, { user, task: nextTask }]),
 });
 
@@ -276,5 +290,54 @@ export const DeleteTaskError: Sync = ({ request, error }) => ({
     [Requesting.request, { path: "/Tasks/deleteTask" }, { request }],
     [Tasks.deleteTask, {}, { error }],
   ),
-  then: actions([Requesting.respond, { request, error }]),
+  // Deleting fails only if the task is not found
+  then: actions([Requesting.respond, { request, error, statusCode: 404 }]),
+});
+
+// --- TASK ROUTES ---
+
+/**
+ * @sync DeleteTaskRoute
+ * @when a DELETE request is made to /tasks/:task with a session token
+ * @where the session is valid
+ * @then delete the task
+ */
+export const DeleteTaskRoute: Sync = ({ request, session, user, task }) => ({
+  when: actions([
+    Requesting.request,
+    { route: "/tasks/:task", method: "DELETE", session, task },
+    { request },
+  ]),
+  where: (frames) => frames.query(Sessioning._getUser, { session }, { user }),
+  then: actions([Tasks.deleteTask, { task }]),
+});
+
+/**
+ * @sync DeleteTaskRouteResponse
+ * @when a task is deleted through a DELETE request to /tasks/:task
+ * @then respond with an "ok" status
+ */
+export const DeleteTaskRouteResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { route: "/tasks/:task", method: "DELETE" }, {
+      request,
+    }],
+    [Tasks.deleteTask, {}, { error: absent() }],
+  ),
+  then: actions([Requesting.respond, { request, status: "ok" }]),
+});
+
+/**
+ * @sync DeleteTaskRouteError
+ * @when deleting a task through a DELETE request to /tasks/:task fails
+ * @then respond with the error and a 404 status
+ */
+export const DeleteTaskRouteError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { route: "/tasks/:task", method: "DELETE" }, {
+      request,
+    }],
+    [Tasks.deleteTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error, statusCode: 404 }]),
 });
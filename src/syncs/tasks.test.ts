@@ -0,0 +1,123 @@
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import { testSyncs } from "@utils/sync_testing.ts";
+
+async function loggedIn(...patterns: string[]) {
+  const app = await testSyncs("auth.*", ...patterns);
+  const credentials = { email: "bob@example.com", password: "password123" };
+  await app.concepts.UserAccount.register({
+    ...credentials,
+    displayName: "Bob",
+  });
+  const { response } = await app.request("/UserAccount/login", credentials);
+  return { app, session: response?.session };
+}
+
+const task = {
+  title: "Write report",
+  description: "Quarterly numbers",
+  dueDate: "2025-03-07",
+  estimatedDuration: 60,
+};
+
+Deno.test("A created task is listed for its owner", async () => {
+  const { app, session } = await loggedIn("tasks.*");
+
+  const created = await app.request("/Tasks/createTask", { session, ...task });
+  assertExists(created.response?.task);
+  assertEquals(created.fired, [
+    "tasks.CreateTaskRequest",
+    "tasks.CreateTaskResponse",
+  ]);
+
+  const listed = await app.request("/Tasks/_getTasks", { session });
+  const tasks = listed.response?.tasks as { _id: string; title: string }[];
+  assertEquals(tasks.map(({ _id, title }) => ({ _id, title })), [
+    { _id: created.response?.task as string, title: task.title },
+  ]);
+  assertEquals(listed.trace, ["Requesting.request", "Requesting.respond"]);
+});
+
+Deno.test("Completing a task looks for the next one to focus on", async () => {
+  const { app, session } = await loggedIn("tasks.*");
+  const created = await app.request("/Tasks/createTask", { session, ...task });
+
+  const completed = await app.request("/Tasks/markTaskComplete", {
+    session,
+    task: created.response?.task,
+  });
+  assertEquals(completed.response, { status: "ok" });
+  assertEquals(completed.trace.slice(0, 3), [
+    "Requesting.request",
+    "Tasks.markTaskComplete",
+    "Planner.getNextTask",
+  ]);
+  assertEquals(completed.fired.slice(0, 2), [
+    "tasks.MarkTaskCompleteRequest",
+    "tasks.MarkCompleteGetNextTask",
+  ]);
+});
+
+Deno.test("Deleting a missing task responds with not found", async () => {
+  const { app, session } = await loggedIn("tasks.*");
+  const flow = await app.request("/Tasks/deleteTask", {
+    session,
+    task: "task:missing",
+  });
+  assertEquals(flow.response, { error: "Task task:missing not found." });
+  assertEquals(flow.statusCode, 404);
+});
+
+Deno.test("Tasks are deleted by their route", async () => {
+  const { app, session } = await loggedIn("tasks.*");
+  const created = await app.request("/Tasks/createTask", { session, ...task });
+  const id = created.response?.task as string;
+
+  const deleted = await app.request(`/tasks/${id}`, {
+    method: "DELETE",
+    session,
+  });
+  assertEquals(deleted.response, { status: "ok" });
+  assertEquals(deleted.actions[0].input.route, "/tasks/:task");
+  assertEquals(deleted.actions[1].input, { task: id });
+
+  const again = await app.request(`/tasks/${id}`, {
+    method: "DELETE",
+    session,
+  });
+  assertEquals(again.statusCode, 404);
+});
+
+Deno.test("Task inputs are converted to their types", async () => {
+  const { app, session } = await loggedIn("tasks.*");
+
+  const created = await app.request("/Tasks/createTask", {
+    session,
+    ...task,
+    estimatedDuration: "45",
+  });
+  const [{ input }] = created.actions.filter(({ action }) =>
+    action === "createTask"
+  );
+  assertEquals(input.estimatedDuration, 45);
+  assertEquals(input.dueDate, new Date("2025-03-07"));
+});
+
+Deno.test("Invalid task inputs are rejected with their errors", async () => {
+  const { app, session } = await loggedIn("tasks.*");
+
+  const rejected = await app.request("/Tasks/createTask", {
+    session,
+    ...task,
+    dueDate: "next week",
+    estimatedDuration: "soon",
+  });
+  assertEquals(rejected.statusCode, 400);
+  assertEquals(rejected.response, {
+    error: "Invalid request input.",
+    errors: [
+      { field: "dueDate", error: "must be an ISO date" },
+      { field: "estimatedDuration", error: "must be a number" },
+    ],
+  });
+  assertEquals(rejected.trace, []);
+});
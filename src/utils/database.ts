@@ -4,6 +4,18 @@ import { Db, MongoClient } from "npm:mongodb";
 import { ID } from "@utils/types.ts";
 import { generate } from "jsr:@std/uuid/unstable-v7";
 
+// A client and database name given in place of the configured connection
+let provided: [MongoClient, string] | undefined;
+
+/**
+ * Makes `getDb` and `testDb` use the client and database name instead of
+ * connecting to MONGODB_URL, as the sync tests do to run concepts without a
+ * server. Only databases opened afterwards use it.
+ */
+export function provideClient(client: MongoClient, name: string) {
+  provided = [client, name];
+}
+
 async function initMongoClient() {
   const DB_CONN = Deno.env.get("MONGODB_URL");
   if (DB_CONN === undefined) {
@@ -19,6 +31,7 @@ async function initMongoClient() {
 }
 
 async function init() {
+  if (provided !== undefined) return provided;
   const client = await initMongoClient();
   const DB_NAME = Deno.env.get("DB_NAME");
   if (DB_NAME === undefined) {
@@ -63,6 +76,15 @@ export async function testDb() {
   return [test_Db, client] as [Db, MongoClient];
 }
 
+/**
+ * Whether the deployment of the database supports transactions, which
+ * MongoDB only does on replica sets and sharded clusters.
+ */
+export async function supportsTransactions(db: Db) {
+  const hello = await db.command({ hello: 1 });
+  return hello.setName !== undefined || hello.msg === "isdbgrid";
+}
+
 /**
  * Creates a fresh ID.
  * @returns {ID} UUID v7 generic ID.
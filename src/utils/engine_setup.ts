@@ -0,0 +1,20 @@
+import type { SyncConcept } from "@engine";
+
+/**
+ * Sets up the engine of the concepts as the app runs it, so that the server,
+ * the sync tests and replays of recorded flows behave alike:
+ *  - a request's flow concludes with its response, which only one sync
+ *    gives, or with the close of its stream of events,
+ *  - actions of `later` thens are scheduled as timers, and fired as new flows.
+ * @param concepts The complete instantiated concepts import from "@concepts"
+ */
+export function setupEngine(
+  // deno-lint-ignore no-explicit-any
+  concepts: Record<string, any>,
+) {
+  const { Requesting, Timer } = concepts;
+  const Engine = concepts.Engine as SyncConcept;
+  Engine.finishOn(Requesting.respond, Requesting.close);
+  Engine.once(Requesting.respond, "request");
+  Engine.scheduleWith(Timer.schedule, Timer.fire);
+}
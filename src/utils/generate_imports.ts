@@ -79,12 +79,13 @@ function generateBarrelFileContent(
     `// This file is auto-generated by the \`generate_imports.ts\` script.
 // Do not edit it manually, unless you know your concept requires a custom instantiation procedure.
 
-import { SyncConcept } from "@engine";
+import { sessionAware, SyncConcept } from "@engine";
 
 export const Engine = new SyncConcept();\n`;
 
   const dbImportFunc = isTest ? "testDb" : "getDb";
-  const dbImport = `import { ${dbImportFunc} } from "@utils/database.ts";\n`;
+  const dbImport =
+    `import { ${dbImportFunc}, supportsTransactions } from "@utils/database.ts";\n`;
 
   const conceptClassImports = concepts
     .map((c) => `import ${c.name}Concept from "${c.importPath}";`)
@@ -100,11 +101,17 @@ export const Engine = new SyncConcept();\n`;
   const dbInitialization = `
 // Initialize the database connection
 export const [db, client] = await ${dbImportFunc}();
+
+// Transactional syncs start their sessions from the client, where the
+// deployment supports transactions, and concepts join them through a
+// session-aware database
+if (await supportsTransactions(db)) Engine.sessions = client;
+const conceptDb = sessionAware(db);
 `;
 
   const instantiations = concepts
     .map((c) =>
-      `export const ${c.name} = Engine.instrumentConcept(new ${c.name}Concept(db));`
+      `export const ${c.name} = Engine.instrumentConcept(new ${c.name}Concept(conceptDb));`
     )
     .join("\n");
 
@@ -175,13 +182,17 @@ async function discoverSyncs(baseDir: string): Promise<SyncInfo[]> {
 function generateSyncsBarrelFileContent(syncs: SyncInfo[]): string {
   const header =
     `// This file is auto-generated by the \`generate_imports.ts\` script.\n// Do not edit it manually.\n\n`;
-  const typeImport = `import type { Sync } from "@engine";\n`;
+  const typeImport = `import type { Sync } from "@engine";
+import type { RequestSchemas } from "@concepts/Requesting/schemas.ts";\n`;
 
   const syncImports = syncs
     .map((s) => `import * as ${s.importAlias} from "${s.importPath}";`)
     .join("\n");
 
-  const instantiation = `\nconst allSyncs: Record<string, Sync> = {};\n`;
+  const instantiation = `\nconst allSyncs: Record<string, Sync> = {};
+
+// The input schemas of requests, which sync files export as \`schemas\`
+export const schemas: RequestSchemas = {};\n`;
 
   const populationLogic = syncs
     .map(
@@ -190,7 +201,8 @@ for (const [name, func] of Object.entries(${s.importAlias})) {
   if (typeof func === "function") {
     allSyncs[\`${s.prefix}.\${name}\`] = func as Sync;
   }
-}`,
+}
+Object.assign(schemas, (${s.importAlias} as { schemas?: RequestSchemas }).schemas);`,
     )
     .join("");
 
@@ -206,9 +218,10 @@ for (const [name, func] of Object.entries(${s.importAlias})) {
 }
 
 /**
- * Main execution function.
+ * Main execution function, also run by the dev server when concepts or
+ * sync files are added or removed.
  */
-async function main() {
+export async function generateImports() {
   console.log(`Scanning for concepts in '${CONCEPTS_DIR}'...`);
   const concepts = await discoverConcepts(CONCEPTS_DIR);
 
@@ -246,7 +259,7 @@ async function main() {
 
 // Run the main function if this script is executed directly.
 if (import.meta.main) {
-  main().catch((err) => {
+  generateImports().catch((err) => {
     console.error("Error generating import files:", err);
     Deno.exit(1);
   });
@@ -0,0 +1,148 @@
+/**
+ * Development mode, started with `deno task dev`: watches the syncs and
+ * concepts, and applies changes to the running engine without restarting
+ * the server, so that in-flight requests and pending flows survive edits.
+ *  - A changed `.sync.ts` file is imported again, and its syncs replace the
+ *    ones it registered before, as do its request schemas. Syncs of a
+ *    removed file are unregistered.
+ *  - A changed `{name}Concept.ts` file swaps the implementation of the
+ *    running concept, keeping its state, and registers all syncs again.
+ *  - Adding or removing sync files or concepts regenerates the barrel files,
+ *    but new concepts are only instantiated on the next start.
+ * Only the changed file is imported again, not the modules it imports.
+ */
+import * as path from "jsr:@std/path";
+import type { Db } from "npm:mongodb";
+import { sessionAware, type Sync, type SyncConcept } from "@engine";
+import type { RequestSchemas } from "@concepts/Requesting/schemas.ts";
+import { generateImports } from "./generate_imports.ts";
+
+const CONCEPTS_DIR = path.resolve(
+  Deno.env.get("CONCEPTS_DIR") ?? "src/concepts",
+);
+const SYNCS_DIR = path.resolve(Deno.env.get("SYNCS_DIR") ?? "src/syncs");
+
+// Editors save files in bursts of events, which are handled together
+const DEBOUNCE_MS = 100;
+
+async function exists(file: string) {
+  try {
+    await Deno.stat(file);
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    throw error;
+  }
+}
+
+// Imports the current version of a module, bypassing the module cache
+async function importFresh(file: string) {
+  return await import(`${path.toFileUrl(file).href}?reload=${Date.now()}`);
+}
+
+// The prefix of the names of syncs in a file, as in the generated `syncs.ts`
+function syncPrefix(file: string) {
+  return path.relative(SYNCS_DIR, file)
+    .replace(/\.sync\.ts$/, "")
+    .replaceAll(path.SEPARATOR, ".");
+}
+
+// The name of the concept a file implements, e.g. "Tasks" for
+// `Tasks/TasksConcept.ts`, as in the generated `concepts.ts`
+function conceptOf(file: string) {
+  const [dirName, fileName, ...rest] = path.relative(CONCEPTS_DIR, file)
+    .split(path.SEPARATOR);
+  if (rest.length > 0 || fileName !== `${dirName}Concept.ts`) return;
+  return dirName.charAt(0).toUpperCase() + dirName.slice(1);
+}
+
+export async function watchAndReload(
+  // deno-lint-ignore no-explicit-any
+  concepts: Record<string, any>,
+  syncs: Record<string, Sync>,
+  schemas: RequestSchemas = {},
+) {
+  const { Engine, db } = concepts as { Engine: SyncConcept; db: Db };
+  // The syncs currently registered, by name
+  const registered: Record<string, Sync> = { ...syncs };
+
+  const reloadSyncFile = async (file: string) => {
+    const prefix = syncPrefix(file);
+    const previous = Object.keys(registered).filter((name) =>
+      name.slice(0, name.lastIndexOf(".")) === prefix
+    );
+    const module = await exists(file) ? await importFresh(file) : {};
+    const reloaded: Record<string, Sync> = {};
+    for (const [name, func] of Object.entries(module)) {
+      if (typeof func === "function") {
+        reloaded[`${prefix}.${name}`] = func as Sync;
+      }
+    }
+    Engine.unregister(...previous);
+    for (const name of previous) delete registered[name];
+    Engine.register(reloaded);
+    Object.assign(registered, reloaded);
+    // The server reads the schemas from the same object
+    Object.assign(schemas, module.schemas);
+    console.log(
+      `[dev] Reloaded ${Object.keys(reloaded).length} syncs from ${
+        path.relative(Deno.cwd(), file)
+      }`,
+    );
+  };
+
+  const reloadConcept = async (name: string, file: string) => {
+    if (!(await exists(file))) return;
+    if (concepts[name] === undefined) {
+      console.log(`[dev] Restart to load the new concept ${name}`);
+      return;
+    }
+    const { default: Concept } = await importFresh(file);
+    Engine.replaceConcept(concepts[name], new Concept(sessionAware(db)));
+    // Syncs refer to the actions of the concept, which were replaced
+    Engine.register(registered);
+    console.log(`[dev] Reloaded concept ${name}`);
+  };
+
+  const changed: Set<string> = new Set();
+  // Whether files were added or removed, which changes the barrel files
+  let regenerate = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Reloads run one after another
+  let reloading = Promise.resolve();
+  const reload = async () => {
+    const files = [...changed];
+    changed.clear();
+    if (regenerate) {
+      regenerate = false;
+      await generateImports();
+    }
+    for (const file of files) {
+      try {
+        if (file.endsWith(".sync.ts")) {
+          await reloadSyncFile(file);
+          continue;
+        }
+        const concept = conceptOf(file);
+        if (concept !== undefined) await reloadConcept(concept, file);
+      } catch (e) {
+        // Keep serving with the previous version until the file is fixed
+        console.error(`[dev] Failed to reload ${file}:`, e);
+      }
+    }
+  };
+
+  console.log(`[dev] Watching ${SYNCS_DIR} and ${CONCEPTS_DIR} for changes`);
+  for await (const event of Deno.watchFs([SYNCS_DIR, CONCEPTS_DIR])) {
+    const relevant = event.paths.filter((file) =>
+      file.endsWith(".sync.ts") || conceptOf(file) !== undefined
+    );
+    if (relevant.length === 0) continue;
+    for (const file of relevant) changed.add(file);
+    if (event.kind === "create" || event.kind === "remove") regenerate = true;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      reloading = reloading.then(reload);
+    }, DEBOUNCE_MS);
+  }
+}
@@ -0,0 +1,535 @@
+/**
+ * An in-memory stand-in for the parts of a MongoDB database that concepts
+ * use, so that they can run without a server, as in the sync tests.
+ * Given to `provideClient` of `database.ts` by the sync test harness.
+ *
+ * Filters support equality, including on dotted paths and array elements,
+ * `$eq`, `$ne`, `$gt`, `$gte`, `$lt`, `$lte`, `$in`, `$nin` and `$exists`,
+ * combined with `$and`, `$or` and `$nor`. Updates support `$set`, `$unset`,
+ * `$inc`, `$push`, `$addToSet`, `$pull` and `$setOnInsert`. Indexes are not
+ * kept, so only `_id` is unique. Aborting a transaction restores all data as
+ * it was when the transaction started.
+ */
+
+type Doc = Record<string, unknown>;
+type SortSpec = Record<string, 1 | -1>;
+type Projection = Record<string, 0 | 1 | boolean>;
+
+interface FindOptions {
+  sort?: SortSpec;
+  limit?: number;
+  skip?: number;
+  projection?: Projection;
+}
+
+function isPlainObject(value: unknown): value is Doc {
+  return typeof value === "object" && value !== null &&
+    !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isOperators(value: unknown): value is Doc {
+  return isPlainObject(value) && Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith("$"));
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date &&
+      a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length &&
+      a.every((value, i) => equals(value, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every((key) => equals(a[key], b[key]));
+  }
+  return a === b;
+}
+
+// Orders values of the same type, or returns undefined if they differ
+function compare(a: unknown, b: unknown): number | undefined {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return undefined;
+}
+
+function getPath(doc: unknown, path: string): unknown {
+  let value = doc;
+  for (const key of path.split(".")) {
+    if (!isPlainObject(value) && !Array.isArray(value)) return undefined;
+    value = (value as Doc)[key];
+  }
+  return value;
+}
+
+function setPath(doc: Doc, path: string, value: unknown) {
+  const keys = path.split(".");
+  const last = keys.pop() as string;
+  let parent = doc;
+  for (const key of keys) {
+    if (!isPlainObject(parent[key])) parent[key] = {};
+    parent = parent[key] as Doc;
+  }
+  parent[last] = value;
+}
+
+function unsetPath(doc: Doc, path: string) {
+  const keys = path.split(".");
+  const last = keys.pop() as string;
+  const parent = getPath(doc, keys.join("."));
+  if (keys.length === 0) delete doc[last];
+  else if (isPlainObject(parent)) delete parent[last];
+}
+
+// Whether a value, or any element of an array value, satisfies `test`
+function some(value: unknown, test: (value: unknown) => boolean) {
+  return test(value) || (Array.isArray(value) && value.some(test));
+}
+
+// Whether a value compares to the operand as `test` requires
+function ordered(
+  value: unknown,
+  operand: unknown,
+  test: (order: number) => boolean,
+) {
+  return some(value, (v) => {
+    const order = compare(v, operand);
+    return order !== undefined && test(order);
+  });
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (!isOperators(condition)) {
+    if (condition === null) return value === undefined || value === null;
+    return some(value, (v) => equals(v, condition));
+  }
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case "$eq":
+        return matchesCondition(value, operand);
+      case "$ne":
+        return !matchesCondition(value, operand);
+      case "$gt":
+        return ordered(value, operand, (order) => order > 0);
+      case "$gte":
+        return ordered(value, operand, (order) => order >= 0);
+      case "$lt":
+        return ordered(value, operand, (order) => order < 0);
+      case "$lte":
+        return ordered(value, operand, (order) => order <= 0);
+      case "$in":
+        return (operand as unknown[]).some((o) => matchesCondition(value, o));
+      case "$nin":
+        return !(operand as unknown[]).some((o) => matchesCondition(value, o));
+      case "$exists":
+        return (value !== undefined) === Boolean(operand);
+      default:
+        throw new Error(`Unsupported query operator ${operator}.`);
+    }
+  });
+}
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case "$and":
+        return (condition as Doc[]).every((f) => matches(doc, f));
+      case "$or":
+        return (condition as Doc[]).some((f) => matches(doc, f));
+      case "$nor":
+        return !(condition as Doc[]).some((f) => matches(doc, f));
+      default:
+        return matchesCondition(getPath(doc, key), condition);
+    }
+  });
+}
+
+function sortDocs(docs: Doc[], sort: SortSpec) {
+  // Missing values come first in ascending order, as in MongoDB
+  const order = (a: unknown, b: unknown) =>
+    a === undefined || a === null
+      ? (b === undefined || b === null ? 0 : -1)
+      : b === undefined || b === null
+      ? 1
+      : compare(a, b) ?? 0;
+  return docs.sort((a, b) => {
+    for (const [key, direction] of Object.entries(sort)) {
+      const result = order(getPath(a, key), getPath(b, key));
+      if (result !== 0) return result * direction;
+    }
+    return 0;
+  });
+}
+
+function project(doc: Doc, projection: Projection): Doc {
+  const fields = Object.entries(projection).filter(([key]) => key !== "_id");
+  const including = fields.some(([, value]) => value);
+  const keepId = projection._id === undefined || Boolean(projection._id);
+  if (!including) {
+    const result = clone(doc);
+    for (const [key] of fields) unsetPath(result, key);
+    if (!keepId) delete result._id;
+    return result;
+  }
+  const result: Doc = keepId && "_id" in doc ? { _id: doc._id } : {};
+  for (const [key] of fields) {
+    const value = getPath(doc, key);
+    if (value !== undefined) setPath(result, key, value);
+  }
+  return result;
+}
+
+function applyUpdate(doc: Doc, update: Doc, inserting: boolean) {
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, operand] of Object.entries(fields as Doc)) {
+      const current = getPath(doc, path);
+      const each = isPlainObject(operand) && Array.isArray(operand.$each)
+        ? operand.$each as unknown[]
+        : [operand];
+      switch (operator) {
+        case "$set":
+          setPath(doc, path, clone(operand));
+          break;
+        case "$setOnInsert":
+          if (inserting) setPath(doc, path, clone(operand));
+          break;
+        case "$unset":
+          unsetPath(doc, path);
+          break;
+        case "$inc":
+          setPath(doc, path, ((current as number) ?? 0) + (operand as number));
+          break;
+        case "$push":
+          setPath(doc, path, [...(current as unknown[] ?? []), ...clone(each)]);
+          break;
+        case "$addToSet": {
+          const values = [...(current as unknown[] ?? [])];
+          for (const value of each) {
+            if (!values.some((v) => equals(v, value))) {
+              values.push(clone(value));
+            }
+          }
+          setPath(doc, path, values);
+          break;
+        }
+        case "$pull":
+          if (Array.isArray(current)) {
+            setPath(
+              doc,
+              path,
+              current.filter((value) =>
+                isPlainObject(operand) && !isOperators(operand) &&
+                  isPlainObject(value)
+                  ? !matches(value, operand)
+                  : !matchesCondition(value, operand)
+              ),
+            );
+          }
+          break;
+        default:
+          throw new Error(`Unsupported update operator ${operator}.`);
+      }
+    }
+  }
+}
+
+function duplicateKey(collection: string, id: unknown) {
+  return Object.assign(
+    new Error(
+      `E11000 duplicate key error collection: ${collection} dup key: { _id: ${
+        JSON.stringify(id)
+      } }`,
+    ),
+    { code: 11000 },
+  );
+}
+
+export class MemoryCursor {
+  private options: FindOptions;
+  constructor(private readonly load: () => Doc[], options: FindOptions = {}) {
+    this.options = { ...options };
+  }
+  sort(sort: SortSpec) {
+    this.options.sort = sort;
+    return this;
+  }
+  limit(limit: number) {
+    this.options.limit = limit;
+    return this;
+  }
+  skip(skip: number) {
+    this.options.skip = skip;
+    return this;
+  }
+  project(projection: Projection) {
+    this.options.projection = projection;
+    return this;
+  }
+  toArray(): Promise<Doc[]> {
+    const { sort, skip = 0, limit, projection } = this.options;
+    let docs = this.load();
+    if (sort !== undefined) docs = sortDocs(docs, sort);
+    // A limit of 0 means no limit, as in MongoDB
+    docs = docs.slice(skip, limit ? skip + limit : undefined);
+    if (projection !== undefined) {
+      docs = docs.map((d) => project(d, projection));
+    }
+    return Promise.resolve(docs.map(clone));
+  }
+  async *[Symbol.asyncIterator]() {
+    yield* await this.toArray();
+  }
+}
+
+export class MemoryCollection {
+  constructor(public readonly collectionName: string, public docs: Doc[]) {}
+
+  private matching(filter: Doc = {}) {
+    return this.docs.filter((doc) => matches(doc, filter));
+  }
+
+  find(filter: Doc = {}, options: FindOptions = {}) {
+    return new MemoryCursor(() => this.matching(filter), options);
+  }
+  async findOne(filter: Doc = {}, options: FindOptions = {}) {
+    const [doc] = await this.find(filter, { ...options, limit: 1 }).toArray();
+    return doc ?? null;
+  }
+  countDocuments(filter: Doc = {}) {
+    return Promise.resolve(this.matching(filter).length);
+  }
+  distinct(key: string, filter: Doc = {}) {
+    const values: unknown[] = [];
+    for (const doc of this.matching(filter)) {
+      const value = getPath(doc, key);
+      for (const v of Array.isArray(value) ? value : [value]) {
+        if (v !== undefined && !values.some((seen) => equals(seen, v))) {
+          values.push(clone(v));
+        }
+      }
+    }
+    return Promise.resolve(values);
+  }
+
+  private insert(doc: Doc) {
+    const inserted = clone(doc);
+    inserted._id ??= crypto.randomUUID();
+    if (this.docs.some((existing) => equals(existing._id, inserted._id))) {
+      throw duplicateKey(this.collectionName, inserted._id);
+    }
+    this.docs.push(inserted);
+    return inserted._id;
+  }
+  insertOne(doc: Doc) {
+    try {
+      return Promise.resolve({
+        acknowledged: true,
+        insertedId: this.insert(doc),
+      });
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+  insertMany(docs: Doc[]) {
+    try {
+      const insertedIds = Object.fromEntries(
+        docs.map((doc, i) => [i, this.insert(doc)]),
+      );
+      return Promise.resolve({
+        acknowledged: true,
+        insertedCount: docs.length,
+        insertedIds,
+      });
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  private update(
+    filter: Doc,
+    update: Doc,
+    options: { upsert?: boolean },
+    many: boolean,
+  ) {
+    const found = this.matching(filter);
+    const targets = many ? found : found.slice(0, 1);
+    let modifiedCount = 0;
+    for (const doc of targets) {
+      const before = clone(doc);
+      applyUpdate(doc, update, false);
+      if (!equals(before, doc)) modifiedCount++;
+    }
+    if (targets.length > 0 || !options.upsert) {
+      return {
+        acknowledged: true,
+        matchedCount: targets.length,
+        modifiedCount,
+        upsertedCount: 0,
+        upsertedId: null,
+      };
+    }
+    // An upsert starts from the fields the filter requires to be equal
+    const doc: Doc = {};
+    for (const [key, condition] of Object.entries(filter)) {
+      if (!key.startsWith("$") && !isOperators(condition)) {
+        setPath(doc, key, clone(condition));
+      }
+    }
+    applyUpdate(doc, update, true);
+    const upsertedId = this.insert(doc);
+    return {
+      acknowledged: true,
+      matchedCount: 0,
+      modifiedCount: 0,
+      upsertedCount: 1,
+      upsertedId,
+    };
+  }
+  updateOne(filter: Doc, update: Doc, options: { upsert?: boolean } = {}) {
+    try {
+      return Promise.resolve(this.update(filter, update, options, false));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+  updateMany(filter: Doc, update: Doc, options: { upsert?: boolean } = {}) {
+    try {
+      return Promise.resolve(this.update(filter, update, options, true));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  private delete(filter: Doc, many: boolean) {
+    const found = this.matching(filter);
+    const deleted = new Set(many ? found : found.slice(0, 1));
+    this.docs.splice(
+      0,
+      this.docs.length,
+      ...this.docs.filter((doc) => !deleted.has(doc)),
+    );
+    return Promise.resolve({ acknowledged: true, deletedCount: deleted.size });
+  }
+  deleteOne(filter: Doc = {}) {
+    return this.delete(filter, false);
+  }
+  deleteMany(filter: Doc = {}) {
+    return this.delete(filter, true);
+  }
+
+  createIndex(spec: Record<string, unknown>) {
+    return Promise.resolve(
+      Object.entries(spec).map(([key, value]) => `${key}_${value}`).join("_"),
+    );
+  }
+  drop() {
+    this.docs.length = 0;
+    return Promise.resolve(true);
+  }
+}
+
+export class MemoryDb {
+  private collections: Map<string, MemoryCollection> = new Map();
+  constructor(public readonly databaseName: string) {}
+
+  collection(name: string) {
+    let collection = this.collections.get(name);
+    if (collection === undefined) {
+      collection = new MemoryCollection(name, []);
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+  listCollections() {
+    const names = [...this.collections.keys()].map((name) => ({ name }));
+    return { toArray: () => Promise.resolve(names) };
+  }
+  dropDatabase() {
+    for (const collection of this.collections.values()) collection.drop();
+    return Promise.resolve(true);
+  }
+  // Answers `hello` as a replica set does, since transactions are supported
+  command(command: Record<string, unknown>) {
+    if (!("hello" in command)) {
+      return Promise.reject(new Error("Only `hello` is supported."));
+    }
+    return Promise.resolve({ ok: 1, setName: this.databaseName });
+  }
+
+  snapshot() {
+    return new Map(
+      [...this.collections].map(([name, c]) => [name, clone(c.docs)]),
+    );
+  }
+  restore(snapshot: Map<string, Doc[]>) {
+    for (const [name, collection] of this.collections) {
+      collection.docs.splice(
+        0,
+        collection.docs.length,
+        ...snapshot.get(name) ?? [],
+      );
+    }
+  }
+}
+
+/**
+ * A session of the in-memory client, whose transactions are rolled back by
+ * restoring the data of every database.
+ */
+class MemorySession {
+  private snapshots?: Map<MemoryDb, Map<string, Doc[]>>;
+  constructor(private readonly client: MemoryClient) {}
+  startTransaction() {
+    this.snapshots = new Map(
+      [...this.client.databases()].map((db) => [db, db.snapshot()]),
+    );
+  }
+  inTransaction() {
+    return this.snapshots !== undefined;
+  }
+  commitTransaction() {
+    this.snapshots = undefined;
+    return Promise.resolve();
+  }
+  abortTransaction() {
+    for (const [db, snapshot] of this.snapshots ?? []) db.restore(snapshot);
+    this.snapshots = undefined;
+    return Promise.resolve();
+  }
+  endSession() {
+    return Promise.resolve();
+  }
+}
+
+export class MemoryClient {
+  private dbs: Map<string, MemoryDb> = new Map();
+
+  db(name: string) {
+    let db = this.dbs.get(name);
+    if (db === undefined) {
+      db = new MemoryDb(name);
+      this.dbs.set(name, db);
+    }
+    return db;
+  }
+  databases() {
+    return this.dbs.values();
+  }
+  startSession() {
+    return new MemorySession(this);
+  }
+  // The data is kept, as every connection shares the one client
+  close() {
+    return Promise.resolve();
+  }
+}
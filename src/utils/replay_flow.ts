@@ -0,0 +1,47 @@
+/**
+ * This script replays flows recorded with `REQUESTING_RECORD_DIR` against
+ * the synchronizations in `@syncs`, answering every action and query from
+ * the recording, and reports where each flow now diverges from it:
+ * `deno task replay recordings/<flow>.json`
+ *
+ * The concepts are created against an in-memory database, so no MongoDB
+ * is needed. Exits with a non-zero status if any flow diverges.
+ */
+import type { MongoClient } from "npm:mongodb";
+import { Logging, parseRecording } from "@engine";
+import { provideClient } from "@utils/database.ts";
+import { setupEngine } from "@utils/engine_setup.ts";
+import { MemoryClient } from "@utils/memory_db.ts";
+
+const files = Deno.args;
+if (files.length === 0) {
+  console.log("Usage: deno task replay <recording.json>...");
+  Deno.exit(2);
+}
+
+// Every action and query is answered from the recording, never the database
+provideClient(new MemoryClient() as unknown as MongoClient, "replay");
+const concepts = await import("@concepts");
+const { default: syncs } = await import("@syncs");
+const { Engine } = concepts;
+Engine.logging = Logging.OFF;
+setupEngine(concepts);
+Engine.register(syncs);
+
+let diverged = 0;
+for (const file of files) {
+  const recording = parseRecording(await Deno.readTextFile(file));
+  const { root } = recording;
+  const { divergences } = await Engine.replay(recording);
+  console.log(
+    `${file}: ${root.concept}.${root.action} ${
+      JSON.stringify(root.input)
+    } - ${divergences.length} divergences`,
+  );
+  for (const divergence of divergences) {
+    console.log(`  [${divergence.kind}] ${divergence.message}`);
+  }
+  if (divergences.length > 0) diverged++;
+}
+
+if (diverged > 0) Deno.exit(1);
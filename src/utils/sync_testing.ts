@@ -0,0 +1,228 @@
+/**
+ * A harness to test the syncs of the app under `deno test`, without MongoDB:
+ * the concepts of "@concepts" run against an in-memory database, and only
+ * the chosen syncs are enabled. Each request runs to the end of its flow,
+ * and answers with its response, the syncs that fired and its actions.
+ *
+ *   const app = await testSyncs("auth.*", "tasks.CreateTask");
+ *   const { response, fired } = await app.request("/UserAccount/register", {
+ *     email: "a@example.com",
+ *     password: "secret",
+ *   });
+ *
+ * Actions and queries of a concept can be replaced by those of a fake with
+ * `app.fake`, until the next `testSyncs`. Run `deno task build` first, so
+ * that "@concepts" and "@syncs" include every concept and sync.
+ */
+import type { FlowRecording, RecordedAction } from "@engine";
+import {
+  events,
+  EventStream,
+  type Reply,
+  type ServerSentEvent,
+} from "@concepts/Requesting/RequestingConcept.ts";
+import { matchRoute, routeTemplates } from "@concepts/Requesting/routes.ts";
+import { validateInput } from "@concepts/Requesting/schemas.ts";
+import { provideClient } from "@utils/database.ts";
+import { setupEngine } from "@utils/engine_setup.ts";
+import { MemoryClient } from "@utils/memory_db.ts";
+import type { ID } from "@utils/types.ts";
+import type { MongoClient } from "npm:mongodb";
+
+export interface TestFlow extends Reply {
+  // Unless the input did not match its schema, and no request was made
+  flow?: string;
+  request?: ID;
+  // The response given by `Requesting.respond`, if a sync responded, and
+  // how it is sent
+  response?: Record<string, unknown>;
+  // The Server-Sent Events emitted, if the request was streaming
+  events?: ServerSentEvent[];
+  // The syncs that invoked actions, in the order they first did
+  fired: string[];
+  // The actions of the flow in the order they were invoked, as
+  // `Concept.action`, starting with `Requesting.request`
+  trace: string[];
+  actions: RecordedAction[];
+}
+
+export interface SyncTest {
+  concepts: typeof import("@concepts");
+  /**
+   * Fires `Requesting.request` with the path and body, and waits for its
+   * flow to finish. As on the server, a path matching a route template adds
+   * the route and its parameters. A body with `stream: true` makes it a
+   * streaming request, as when accepting Server-Sent Events. An input that
+   * does not match its schema is answered with 400 and its errors instead.
+   */
+  request(path: string, body?: Record<string, unknown>): Promise<TestFlow>;
+  /**
+   * Replaces the actions, queries and fields of the named concept that the
+   * fake has, keeping the concept instrumented, so the syncs see them.
+   */
+  fake(name: string, fake: object): void;
+}
+
+// The concepts of "@concepts" are created once, so every test shares their
+// in-memory database, which `testSyncs` empties
+const client = new MemoryClient() as unknown as MongoClient;
+
+// The fields of concepts that fakes replaced, as they were before
+const faked: Map<object, Map<PropertyKey, PropertyDescriptor | undefined>> =
+  new Map();
+
+// The fields and methods of an object, including those of its classes
+function members(object: object) {
+  const keys: Set<PropertyKey> = new Set(Reflect.ownKeys(object));
+  let prototype = Object.getPrototypeOf(object);
+  while (prototype !== null && prototype !== Object.prototype) {
+    for (const key of Reflect.ownKeys(prototype)) {
+      if (key !== "constructor") keys.add(key);
+    }
+    prototype = Object.getPrototypeOf(prototype);
+  }
+  return keys;
+}
+
+/**
+ * Prepares the engine of "@concepts" with an empty in-memory database and
+ * only the syncs matching `patterns` enabled: a name such as
+ * "auth.LoginRequest", a group such as "auth.*", or "*" for all.
+ */
+export async function testSyncs(...patterns: string[]): Promise<SyncTest> {
+  provideClient(client, "memory");
+  const concepts = await import("@concepts");
+  const { default: syncs, schemas } = await import("@syncs");
+  const { Logging } = await import("@engine");
+  const { Engine, Requesting, db } = concepts;
+
+  for (const [concept, originals] of faked) {
+    for (const [key, descriptor] of originals) {
+      if (descriptor === undefined) Reflect.deleteProperty(concept, key);
+      else Reflect.defineProperty(concept, key, descriptor);
+    }
+  }
+  faked.clear();
+  for (const { name } of await db.listCollections().toArray()) {
+    await db.collection(name).drop();
+  }
+
+  // Configured as in main.ts
+  Engine.logging = Logging.OFF;
+  setupEngine(concepts);
+  Engine.register(syncs);
+  Engine.disable("*");
+  Engine.enable(...patterns);
+
+  const recordings: Map<ID, FlowRecording> = new Map();
+  Engine.recordFlows(
+    (record) => record.action === Requesting.request,
+    (recording) => {
+      const request = recording.actions[0].output?.request as ID;
+      recordings.set(request, recording);
+    },
+  );
+
+  return {
+    concepts,
+    async request(path, body = {}) {
+      const routed = matchRoute(
+        routeTemplates(Engine, Requesting.request),
+        path,
+      );
+      let input = {
+        ...body,
+        ...routed?.params,
+        path,
+        ...(routed !== undefined ? { route: routed.route } : {}),
+      };
+      const schema = schemas[routed?.route ?? path];
+      if (schema !== undefined) {
+        const checked = validateInput(schema, input);
+        if ("errors" in checked) {
+          const { errors } = checked;
+          const response = { error: "Invalid request input.", errors };
+          return {
+            response,
+            statusCode: 400,
+            fired: [],
+            trace: [],
+            actions: [],
+          };
+        }
+        input = checked.input;
+      }
+      const stream = body.stream === true ? new EventStream() : undefined;
+      const { request } = await Requesting.request({
+        ...input,
+        [events]: stream,
+      });
+      // As on the server, the stream ends with the flow
+      stream?.close();
+      const emitted: ServerSentEvent[] = [];
+      for await (const event of stream ?? []) emitted.push(event);
+      const recording = recordings.get(request);
+      if (recording === undefined) {
+        throw new Error(`The flow of request ${request} did not finish.`);
+      }
+      recordings.delete(request);
+      const { flow, actions } = recording;
+      const responded = actions.find((action) =>
+        action.concept === "Requesting" && action.action === "respond" &&
+        action.output !== undefined
+      );
+      let reply: Pick<TestFlow, "response" | keyof Reply> = {};
+      if (stream !== undefined) {
+        const sent = emitted.find(({ event }) => event === "response");
+        if (sent !== undefined) reply = { response: sent.data } as typeof reply;
+      } else if (responded !== undefined) {
+        // Also stops the request from waiting for its response
+        [reply] = await Requesting._awaitResponse({
+          request,
+        }) as typeof reply[];
+      }
+      const fired = [
+        ...new Set(actions.flatMap(({ sync }) => sync ? [sync] : [])),
+      ];
+      return {
+        flow,
+        request,
+        ...reply,
+        ...(stream !== undefined ? { events: emitted } : {}),
+        fired,
+        trace: actions.map(({ concept, action }) => `${concept}.${action}`),
+        actions,
+      };
+    },
+    fake(name, fake) {
+      const concept = Reflect.get(concepts, name);
+      if (concept === undefined) {
+        throw new Error(`Concept ${name} not found in "@concepts".`);
+      }
+      const originals = faked.get(concept) ?? new Map();
+      faked.set(concept, originals);
+      const replace = (key: PropertyKey, value: unknown) => {
+        if (!originals.has(key)) {
+          originals.set(key, Reflect.getOwnPropertyDescriptor(concept, key));
+        }
+        Reflect.defineProperty(concept, key, {
+          value,
+          writable: true,
+          configurable: true,
+        });
+      };
+      const keys = members(fake);
+      for (const key of keys) {
+        const value = Reflect.get(fake, key);
+        replace(key, typeof value === "function" ? value.bind(fake) : value);
+        // The batch variant of a query would answer instead of the fake
+        const batch = typeof key === "string" ? `${key}Batch` : undefined;
+        if (batch?.startsWith("_") && !keys.has(batch)) {
+          replace(batch, undefined);
+        }
+      }
+      // The syncs are matched against the new actions
+      Engine.register(syncs);
+    },
+  };
+}
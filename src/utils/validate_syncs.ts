@@ -0,0 +1,57 @@
+/**
+ * This script statically checks the synchronizations in `@syncs` against the
+ * concepts in `@concepts`, without starting the server. It reports:
+ *  - `then` variables that `when` and `where` can never bind,
+ *  - request paths that no synchronization responds to,
+ *  - actions that appear in `then` but in no `when`,
+ *  - cycles between synchronizations.
+ *
+ * The concept/sync dependency graph can be written as DOT and JSON:
+ * `deno task validate --dot syncs.dot --json syncs.json`
+ *
+ * The concepts are created against an in-memory database, so no MongoDB
+ * is needed. Exits with a non-zero status if any errors are found.
+ */
+import { parseArgs } from "jsr:@std/cli/parse-args";
+import type { MongoClient } from "npm:mongodb";
+import { toDot, validateSyncs } from "@engine";
+import { provideClient } from "@utils/database.ts";
+import { MemoryClient } from "@utils/memory_db.ts";
+
+const flags = parseArgs(Deno.args, {
+  string: ["dot", "json"],
+});
+
+// Only the actions of the concepts are needed, never their state
+provideClient(new MemoryClient() as unknown as MongoClient, "validate");
+const { Engine, Requesting } = await import("@concepts");
+const { default: syncs } = await import("@syncs");
+Engine.register(syncs);
+
+const { issues, graph } = validateSyncs(Object.values(Engine.syncs), {
+  request: Requesting.request,
+  respond: Requesting.respond,
+  terminal: [Requesting.respond],
+});
+
+if (flags.dot) {
+  await Deno.writeTextFile(flags.dot, toDot(graph) + "\n");
+  console.log(`Wrote sync graph to ${flags.dot}`);
+}
+if (flags.json) {
+  await Deno.writeTextFile(flags.json, JSON.stringify(graph, null, 2) + "\n");
+  console.log(`Wrote sync graph to ${flags.json}`);
+}
+
+for (const issue of issues) {
+  const label = issue.severity === "error" ? "ERROR" : "WARNING";
+  console.log(`${label} [${issue.kind}] ${issue.message}`);
+}
+const errors = issues.filter((issue) => issue.severity === "error").length;
+console.log(
+  `\nChecked ${graph.syncs.length} synchronizations: ${errors} errors, ${
+    issues.length - errors
+  } warnings.`,
+);
+
+if (errors > 0) Deno.exit(1);